@@ -10,10 +10,11 @@ import {
   StateConfig,
   ActionTypes,
   OmniEventObject,
-  BuiltInEvent
+  BuiltInEvent,
+  SerializedState
 } from './types';
-import { EMPTY_ACTIVITY_MAP } from './constants';
-import { matchesState, keys, isString } from './utils';
+import { EMPTY_ACTIVITY_MAP, STATE_SERIALIZATION_VERSION } from './constants';
+import { matchesState, keys, isString, mapValues } from './utils';
 import { StateTree } from './StateTree';
 
 export function stateValuesEqual(
@@ -212,6 +213,27 @@ export class State<TContext, TEvent extends EventObject = EventObject>
     );
   }
 
+  /**
+   * Returns the JSON-serializable representation of this state, which can be
+   * restored with `machine.deserializeState(...)`.
+   *
+   * The actions, meta data and previous state (`history`) are not serialized.
+   */
+  public toJSON(): SerializedState<TContext, TEvent> {
+    const machine = this.tree ? this.tree.stateNode.machine : undefined;
+
+    return {
+      version: STATE_SERIALIZATION_VERSION,
+      machine: machine ? machine.id : undefined,
+      machineVersion: machine ? machine.version : undefined,
+      value: this.value,
+      context: this.context,
+      event: this.event,
+      historyValue: this.historyValue,
+      activities: mapValues(this.activities, activity => !!activity)
+    };
+  }
+
   /**
    * Whether the current state value is a subset of the given parent state value.
    * @param parentStateValue
@@ -18,7 +18,8 @@ import {
   warn,
   isArray,
   isFunction,
-  isString
+  isString,
+  matchesEventDescriptor
 } from './utils';
 import {
   Event,
@@ -28,7 +29,6 @@ import {
   StateTransition,
   StateValueMap,
   MachineOptions,
-  Condition,
   ConditionPredicate,
   EventObject,
   HistoryStateNodeConfig,
@@ -58,8 +58,14 @@ import {
   BuiltInEvent,
   Guard,
   GuardPredicate,
+  GuardCombinator,
   GuardMeta,
-  MachineConfig
+  GuardObject,
+  MachineConfig,
+  SerializedState,
+  ChooseAction,
+  PureAction,
+  Action
 } from './types';
 import { matchesState } from './utils';
 import { State, stateValuesEqual } from './State';
@@ -75,11 +81,16 @@ import {
   raise,
   done,
   doneInvoke,
+  errorPlatform,
+  errorTimeout,
   toActionObject,
+  toActionObjects,
   resolveSend,
   initEvent
 } from './actions';
 import { StateTree } from './StateTree';
+import { STATE_SERIALIZATION_VERSION } from './constants';
+import { toGuard, getGuardTypes, getActionGuardTypes } from './guards';
 
 const STATE_DELIMITER = '.';
 const NULL_EVENT = '';
@@ -342,6 +353,53 @@ class StateNode<
       .concat(this.invoke)
       .map(activity => toActivityDefinition(activity));
     this.after = this.getDelayedTransitions();
+
+    // Guard implementations might be provided later with .withConfig(),
+    // so guards are only validated once implementations are provided.
+    if (!this.parent && options && options.guards) {
+      this.validateGuards();
+    }
+  }
+
+  /**
+   * Ensures that every guard type referenced by the transitions of this machine
+   * has an implementation in the machine's `guards` option.
+   */
+  private validateGuards(): void {
+    const { guards } = this.options;
+    const stateNodes = [this as StateNode<TContext>].concat(
+      keys(this.idMap).map(id => this.idMap[id])
+    );
+    const validateGuardTypes = (guardTypes: string[], reference: string) => {
+      for (const guardType of guardTypes) {
+        if (!guards[guardType]) {
+          throw new Error(
+            `Guard (condition) '${guardType}' referenced in ${reference} is not implemented on machine '${
+              this.id
+            }'.`
+          );
+        }
+      }
+    };
+    const getActionsGuardTypes = (
+      actions: Array<ActionObject<TContext, TEvent>>
+    ) => flatten(actions.map(action => getActionGuardTypes(action)));
+
+    for (const stateNode of stateNodes) {
+      for (const transition of stateNode.transitions) {
+        validateGuardTypes(
+          (transition.cond ? getGuardTypes(transition.cond) : []).concat(
+            getActionsGuardTypes(transition.actions)
+          ),
+          `the '${transition.event}' transition of state node '${stateNode.id}'`
+        );
+      }
+
+      validateGuardTypes(
+        getActionsGuardTypes(stateNode.onEntry.concat(stateNode.onExit)),
+        `the entry or exit actions of state node '${stateNode.id}'`
+      );
+    }
   }
 
   /**
@@ -361,7 +419,7 @@ class StateNode<
       {
         actions: { ...actions, ...options.actions },
         activities: { ...activities, ...options.activities },
-        guards: { ...guards, ...options.guards },
+        ...this.getGuardsOption({ ...guards, ...options.guards }),
         services: { ...services, ...options.services },
         delays: { ...delays, ...options.delays }
       },
@@ -377,7 +435,23 @@ class StateNode<
   public withContext(
     context: TContext
   ): StateNode<TContext, TStateSchema, TEvent> {
-    return new StateNode(this.definition, this.options, context);
+    const { guards, ...options } = this.options;
+
+    return new StateNode(
+      this.definition,
+      { ...options, ...this.getGuardsOption(guards) },
+      context
+    );
+  }
+
+  /**
+   * Returns the `guards` option for a clone of this machine, which is omitted if there
+   * are no guard implementations so that the clone's guards are not validated.
+   */
+  private getGuardsOption(
+    guards: MachineOptions<TContext, TEvent>['guards']
+  ): Partial<MachineOptions<TContext, TEvent>> {
+    return keys(guards).length ? { guards } : {};
   }
 
   /**
@@ -469,7 +543,7 @@ class StateNode<
           event,
           ...delayedTransition,
           cond: delayedTransition.cond
-            ? this.toGuard(delayedTransition.cond)
+            ? toGuard(delayedTransition.cond)
             : undefined,
           actions: toArray(delayedTransition.actions).map(action =>
             toActionObject(action)
@@ -503,7 +577,7 @@ class StateNode<
           event,
           delay,
           ...transition,
-          cond: transition.cond ? this.toGuard(transition.cond) : undefined,
+          cond: transition.cond ? toGuard(transition.cond) : undefined,
           actions: toArray(transition.actions).map(action =>
             toActionObject(action)
           )
@@ -569,7 +643,9 @@ class StateNode<
   public handles(event: Event<TEvent>): boolean {
     const eventType = getEventType<TEvent>(event);
 
-    return this.events.indexOf(eventType) !== -1;
+    return this.events.some(descriptor =>
+      matchesEventDescriptor(descriptor, eventType)
+    );
   }
 
   /**
@@ -597,6 +673,155 @@ class StateNode<
     });
   }
 
+  /**
+   * Returns the incompatibilities between the serialized `state` and this machine,
+   * such as state nodes that no longer exist. An empty array is returned if the
+   * serialized state can be restored by this machine.
+   *
+   * @param serializedState The serialized state (see `state.toJSON()`)
+   */
+  public getStateIncompatibilities(
+    serializedState: SerializedState<TContext, TEvent>
+  ): string[] {
+    const incompatibilities: string[] = [];
+
+    if (serializedState.version !== STATE_SERIALIZATION_VERSION) {
+      incompatibilities.push(
+        `Serialization version '${
+          serializedState.version
+        }' is not supported (expected version '${STATE_SERIALIZATION_VERSION}').`
+      );
+
+      return incompatibilities;
+    }
+
+    if (
+      serializedState.machine !== undefined &&
+      serializedState.machine !== this.machine.id
+    ) {
+      incompatibilities.push(
+        `State was serialized from machine '${serializedState.machine}', not '${
+          this.machine.id
+        }'.`
+      );
+    }
+
+    this.machine.validateStateValue(serializedState.value, incompatibilities);
+
+    return incompatibilities;
+  }
+
+  /**
+   * Restores a `State` instance from its serialized representation, resolved
+   * relative to this machine.
+   *
+   * Throws if the serialized state is incompatible with this machine, e.g.,
+   * if the machine definition has changed since the state was serialized.
+   *
+   * @param serializedState The serialized state (see `state.toJSON()`)
+   */
+  public deserializeState(
+    serializedState: SerializedState<TContext, TEvent>
+  ): State<TContext, TEvent> {
+    const incompatibilities = this.getStateIncompatibilities(serializedState);
+
+    if (incompatibilities.length) {
+      const versionInfo =
+        serializedState.machineVersion !== this.machine.version
+          ? ` (serialized with version '${
+              serializedState.machineVersion
+            }', current version '${this.machine.version}')`
+          : '';
+
+      throw new Error(
+        `Unable to restore state on machine '${
+          this.machine.id
+        }'${versionInfo}:\n${incompatibilities
+          .map(incompatibility => `- ${incompatibility}`)
+          .join('\n')}`
+      );
+    }
+
+    const { value } = serializedState;
+    const activities: ActivityMap = {};
+
+    for (const stateNode of [this.machine, ...this.getStateNodes(value)]) {
+      for (const activity of stateNode.activities) {
+        if (serializedState.activities[activity.type]) {
+          activities[activity.type] = activity;
+        }
+      }
+    }
+
+    return this.resolveState(
+      new State<TContext, TEvent>({
+        value,
+        context: serializedState.context,
+        event: serializedState.event,
+        historyValue: serializedState.historyValue,
+        activities
+      })
+    );
+  }
+
+  private validateStateValue(
+    stateValue: StateValue,
+    incompatibilities: string[]
+  ): void {
+    const subStateValues: StateValueMap = isString(stateValue)
+      ? { [stateValue]: {} }
+      : stateValue;
+    const subStateKeys = keys(subStateValues);
+
+    if (this.type === 'parallel') {
+      for (const key of keys(this.states)) {
+        if (
+          this.states[key].type !== 'history' &&
+          subStateKeys.indexOf(key) === -1
+        ) {
+          incompatibilities.push(
+            `Parallel state node '${this.id}' is missing region '${key}'.`
+          );
+        }
+      }
+    } else if (subStateKeys.length > 1) {
+      incompatibilities.push(
+        `State node '${this.id}' is no longer a parallel state node.`
+      );
+    }
+
+    for (const key of subStateKeys) {
+      const stateNode = this.states[key] as StateNode<TContext> | undefined;
+
+      if (!stateNode) {
+        incompatibilities.push(
+          `State node '${[this.id, key].join(
+            this.delimiter
+          )}' does not exist in state IDs: ${this.machine.stateIds
+            .map(id => `'${id}'`)
+            .join(', ')}.`
+        );
+        continue;
+      }
+
+      const subStateValue = subStateValues[key];
+
+      if (!isString(subStateValue) && !keys(subStateValue).length) {
+        if (stateNode.type === 'compound' || stateNode.type === 'parallel') {
+          incompatibilities.push(
+            `State node '${stateNode.id}' is no longer an atomic state node.`
+          );
+        }
+      } else if (!keys(stateNode.states).length) {
+        incompatibilities.push(
+          `State node '${stateNode.id}' no longer has child state nodes.`
+        );
+      } else {
+        stateNode.validateStateValue(subStateValue, incompatibilities);
+      }
+    }
+  }
+
   private transitionLeafNode(
     stateValue: string,
     state: State<TContext, TEvent>,
@@ -781,14 +1006,35 @@ class StateNode<
     // orthogonal node
     return this.transitionParallelNode(stateValue, state, event);
   }
+  /**
+   * Returns the transitions of this state node that are enabled by the given event type,
+   * in order of precedence: exact matches first, then prefix descriptors (e.g., `'error.*'`)
+   * from most to least specific, and finally the wildcard descriptor (`'*'`).
+   */
+  private getCandidates(
+    eventType: string
+  ): Array<TransitionDefinition<TContext, TEvent>> {
+    const on = this.on;
+    const exactCandidates = on[eventType] || [];
+
+    const descriptors = keys(on)
+      .filter(
+        descriptor =>
+          descriptor !== eventType &&
+          matchesEventDescriptor(descriptor, eventType)
+      )
+      .sort((a, b) => b.length - a.length);
+
+    return exactCandidates.concat(
+      flatten(descriptors.map(descriptor => on[descriptor]))
+    );
+  }
   private next(
     state: State<TContext, TEvent>,
     eventObject: OmniEventObject<TEvent>
   ): StateTransition<TContext, TEvent> {
     const eventType = eventObject.type;
-    const candidates: Array<TransitionDefinition<TContext, TEvent>> = this.on[
-      eventType
-    ];
+    const candidates = this.getCandidates(eventType);
     const actions: Array<ActionObject<TContext, TEvent>> = this._transient
       ? [{ type: actionTypes.nullEvent }]
       : [];
@@ -940,7 +1186,11 @@ class StateNode<
     eventObject: OmniEventObject<TEvent>,
     state: State<TContext, TEvent>
   ): boolean {
-    let condFn: ConditionPredicate<TContext, OmniEventObject<TEvent>>;
+    let condFn: ConditionPredicate<
+      TContext,
+      OmniEventObject<TEvent>,
+      GuardObject
+    >;
     const { guards } = this.machine.options;
     const guardMeta: GuardMeta<TContext, TEvent> = {
       state,
@@ -948,12 +1198,30 @@ class StateNode<
     };
 
     // TODO: do not hardcode!
-    if (guard.type === 'xstate.cond') {
-      return (guard as GuardPredicate<TContext, TEvent>).predicate(
-        context,
-        eventObject,
-        guardMeta
-      );
+    switch (guard.type) {
+      case 'xstate.cond':
+        return (guard as GuardPredicate<TContext, TEvent>).predicate(
+          context,
+          eventObject,
+          guardMeta
+        );
+      case 'xstate.and':
+        return (guard as GuardCombinator<TContext, TEvent>).guards.every(
+          subGuard => this.evaluateGuard(subGuard, context, eventObject, state)
+        );
+      case 'xstate.or':
+        return (guard as GuardCombinator<TContext, TEvent>).guards.some(
+          subGuard => this.evaluateGuard(subGuard, context, eventObject, state)
+        );
+      case 'xstate.not':
+        return !this.evaluateGuard(
+          (guard as GuardCombinator<TContext, TEvent>).guards[0],
+          context,
+          eventObject,
+          state
+        );
+      default:
+        break;
     }
 
     if (!guards[guard.type]) {
@@ -969,29 +1237,11 @@ class StateNode<
     return condFn(context, eventObject, guardMeta);
   }
 
-  private toGuard(
-    condition: Condition<TContext, TEvent>
-  ): Guard<TContext, TEvent> {
-    if (isString(condition)) {
-      return {
-        type: condition
-      };
-    }
-
-    if (isFunction(condition)) {
-      return {
-        type: 'xstate.cond',
-        predicate: condition
-      };
-    }
-
-    return condition;
-  }
-
   private getActions(
     transition: StateTransition<TContext, TEvent>,
-    prevState: State<TContext>
-  ): Array<ActionObject<TContext, TEvent>> {
+    prevState: State<TContext, TEvent>,
+    eventObject: OmniEventObject<TEvent>
+  ): [Array<ActionObject<TContext, TEvent>>, TContext] {
     const entryExitStates = transition.tree
       ? transition.tree.resolved.getEntryExitStates(
           this.getStateTree(prevState.value),
@@ -1034,7 +1284,86 @@ class StateNode<
       .concat(entryActions)
       .map(action => toActionObject(action, this.machine.options.actions));
 
-    return actions;
+    return this.resolveDynamicActions(
+      actions,
+      prevState.context,
+      prevState,
+      eventObject
+    );
+  }
+
+  /**
+   * Resolves the dynamic actions in the given actions in order, evaluated against the event
+   * and the `context` as updated by the preceding `assign(...)` actions:
+   * - `choose(...)` actions are replaced with the actions of their first branch whose guard passes.
+   * - `pure(...)` actions are replaced with the actions returned by their `get` function.
+   *
+   * Returns the resolved actions and the context updated by all of their `assign(...)` actions.
+   */
+  private resolveDynamicActions(
+    actions: Array<ActionObject<TContext, TEvent>>,
+    context: TContext,
+    state: State<TContext, TEvent>,
+    eventObject: OmniEventObject<TEvent>
+  ): [Array<ActionObject<TContext, TEvent>>, TContext] {
+    const resolvedActions: Array<ActionObject<TContext, TEvent>> = [];
+    let updatedContext = context;
+
+    for (const action of actions) {
+      let dynamicActions: Array<Action<TContext, TEvent>> = [];
+
+      switch (action.type) {
+        case actionTypes.assign:
+          updatedContext = this.options.updater(updatedContext, eventObject, [
+            action as AssignAction<TContext, TEvent>
+          ]);
+          resolvedActions.push(action);
+          continue;
+        case actionTypes.choose:
+          for (const condition of (action as ChooseAction<TContext, TEvent>)
+            .conds) {
+            if (
+              !condition.cond ||
+              this.evaluateGuard(
+                condition.cond,
+                updatedContext,
+                eventObject,
+                state
+              )
+            ) {
+              dynamicActions = toArray(condition.actions);
+              break;
+            }
+          }
+          break;
+        case actionTypes.pure:
+          dynamicActions = toArray(
+            (action as PureAction<TContext, TEvent>).get(
+              updatedContext,
+              eventObject as TEvent
+            )
+          );
+          break;
+        default:
+          resolvedActions.push(action);
+          continue;
+      }
+
+      const [
+        resolvedDynamicActions,
+        dynamicContext
+      ] = this.resolveDynamicActions(
+        toActionObjects(dynamicActions, this.machine.options.actions),
+        updatedContext,
+        state,
+        eventObject
+      );
+
+      resolvedActions.push(...resolvedDynamicActions);
+      updatedContext = dynamicContext;
+    }
+
+    return [resolvedActions, updatedContext];
   }
 
   /**
@@ -1071,7 +1400,7 @@ class StateNode<
     const eventType = eventObject.type;
 
     if (this.strict) {
-      if (this.events.indexOf(eventType) === -1 && !isBuiltInEvent(eventType)) {
+      if (!this.handles(eventType) && !isBuiltInEvent(eventType)) {
         throw new Error(
           `Machine '${this.id}' does not accept event '${eventType}'`
         );
@@ -1121,7 +1450,11 @@ class StateNode<
       }
     }
 
-    const actions = this.getActions(stateTransition, currentState);
+    const [actions, updatedContext] = this.getActions(
+      stateTransition,
+      currentState,
+      eventObject
+    );
     const activities = { ...currentState.activities };
     for (const action of actions) {
       if (action.type === actionTypes.start) {
@@ -1147,10 +1480,6 @@ class StateNode<
         action.type === actionTypes.assign
     );
 
-    const updatedContext = assignActions.length
-      ? this.options.updater(currentState.context, eventObject, assignActions)
-      : currentState.context;
-
     const resolvedActions = nonEventActions.map(actionObject => {
       if (actionObject.type === actionTypes.send) {
         const sendAction = resolveSend(
@@ -1522,14 +1851,12 @@ class StateNode<
       }
     }
 
-    const assignActions = actions.filter(
-      action => typeof action === 'object' && action.type === actionTypes.assign
-    ) as Array<AssignAction<TContext, TEvent>>;
-
-    const updatedContext = this.options.updater(
+    // The `assign(...)` actions of dynamic actions (such as `pure(...)`) are applied as well
+    const [, updatedContext] = this.resolveDynamicActions(
+      actions,
       context,
-      { type: ActionTypes.Init },
-      assignActions
+      State.from<TContext, TEvent>(stateValue, context),
+      { type: ActionTypes.Init }
     );
 
     const initialNextState = new State<TContext, TEvent>({
@@ -1555,7 +1882,12 @@ class StateNode<
       );
     }
 
-    const state = this.getInitialState(initialStateValue);
+    // The initial assign actions are applied when resolving the transition,
+    // so they are resolved from the machine's initial context only once
+    const state = State.from<TContext, TEvent>(
+      initialStateValue,
+      this.machine.context!
+    );
     return this.resolveTransition(
       {
         tree: this.getStateTree(initialStateValue),
@@ -1853,7 +2185,7 @@ class StateNode<
           : [],
         cond: transitionConfig
           ? transitionConfig.cond
-            ? this.toGuard(transitionConfig.cond)
+            ? toGuard(transitionConfig.cond)
             : undefined
           : undefined,
         target: undefined,
@@ -1892,7 +2224,7 @@ class StateNode<
         : [],
       cond: transitionConfig
         ? transitionConfig.cond
-          ? this.toGuard(transitionConfig.cond)
+          ? toGuard(transitionConfig.cond)
           : undefined
         : undefined,
       target: formattedTargets,
@@ -1914,6 +2246,10 @@ class StateNode<
         }
         if (invokeDef.onError) {
           acc[actionTypes.errorExecution] = invokeDef.onError;
+          acc[`${errorPlatform(invokeDef.id)}`] = invokeDef.onError;
+        }
+        if (invokeDef.onTimeout) {
+          acc[`${errorTimeout(invokeDef.id)}`] = invokeDef.onTimeout;
         }
         return acc;
       },
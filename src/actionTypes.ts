@@ -14,3 +14,8 @@ export const log = ActionTypes.Log;
 export const init = ActionTypes.Init;
 export const invoke = ActionTypes.Invoke;
 export const errorExecution = ActionTypes.ErrorExecution;
+export const choose = ActionTypes.Choose;
+export const pure = ActionTypes.Pure;
+export const escalate = ActionTypes.Escalate;
+export const errorPlatform = ActionTypes.ErrorPlatform;
+export const errorTimeout = ActionTypes.ErrorTimeout;
@@ -22,11 +22,20 @@ import {
   DoneEventObject,
   SendExpr,
   SendActionObject,
-  OmniEventObject
+  OmniEventObject,
+  ChooseAction,
+  ChooseConditionConfig,
+  PureAction,
+  SingleOrArray,
+  EscalateAction,
+  ErrorPlatformEvent,
+  ErrorTimeoutEvent,
+  Expr
 } from './types';
 import * as actionTypes from './actionTypes';
 import { getEventType, isFunction, isString } from './utils';
 import { isArray } from './utils';
+import { toGuard } from './guards';
 
 export { actionTypes };
 
@@ -210,9 +219,10 @@ export function resolveSend<TContext, TEvent extends EventObject>(
   const resolvedDelay = isFunction(action.delay)
     ? action.delay(ctx, event)
     : action.delay;
-  const resolvedTarget = isFunction(action.to)
-    ? action.to(ctx, event)
-    : action.to;
+  const target = isFunction(action.to) ? action.to(ctx, event) : action.to;
+  // Actor references (or their serialized `{ id }` form) are sent to by their ID
+  const resolvedTarget =
+    target !== undefined && typeof target === 'object' ? target.id : target;
 
   return {
     ...action,
@@ -238,6 +248,58 @@ export function sendParent<TContext, TEvent extends EventObject>(
   });
 }
 
+/**
+ * Forwards the event that caused this action to be executed, as-is,
+ * to the specified target (such as an invoked or spawned child service).
+ *
+ * @param target The target to forward the event to.
+ * @param options Options to pass into the send event.
+ */
+export function forwardTo<TContext, TEvent extends EventObject>(
+  target: Required<SendActionOptions<TContext, TEvent>>['to'],
+  options?: SendActionOptions<TContext, TEvent>
+): SendAction<TContext, TEvent> {
+  return send<TContext, TEvent>((_, event) => event, {
+    ...options,
+    to: target
+  });
+}
+
+/**
+ * Sends an event back to the actor that sent the event that caused this
+ * action to be executed, such as the parent or a child service.
+ *
+ * @param event The event to send back to the sender (origin) of the current event.
+ * @param options Options to pass into the send event.
+ */
+export function respond<TContext, TEvent extends EventObject>(
+  event: Event<TEvent> | SendExpr<TContext, TEvent>,
+  options?: SendActionOptions<TContext, TEvent>
+): SendAction<TContext, TEvent> {
+  return send<TContext, TEvent>(event, {
+    ...options,
+    to: SpecialTargets.Origin
+  });
+}
+
+/**
+ * Escalates an error to this service's parent service, by sending an
+ * `error.platform.<id>` event (where `<id>` is the ID of this service) with the error data.
+ *
+ * @param errorData The error data to send, or an expression that returns the error data.
+ *  The expression takes in 2 arguments:
+ *  - `ctx` - the current state context
+ *  - `event` - the event that caused this action to be executed.
+ */
+export function escalate<TContext, TEvent extends EventObject>(
+  errorData: any | Expr<TContext, TEvent, any>
+): EscalateAction<TContext, TEvent> {
+  return {
+    type: ActionTypes.Escalate,
+    data: errorData
+  };
+}
+
 /**
  *
  * @param expr The expression function to evaluate which will be logged.
@@ -322,6 +384,46 @@ export const assign = <TContext, TEvent extends EventObject = EventObject>(
   };
 };
 
+/**
+ * Chooses the actions to execute from the first of the given conditional branches
+ * whose `cond` guard passes. A branch without a `cond` guard always passes.
+ * If no branch passes, no actions are executed.
+ *
+ * @param conds The conditional branches, each with an optional `cond` guard
+ *  and the `actions` to execute if the guard passes.
+ */
+export function choose<TContext, TEvent extends EventObject>(
+  conds: Array<ChooseConditionConfig<TContext, TEvent>>
+): ChooseAction<TContext, TEvent> {
+  return {
+    type: ActionTypes.Choose,
+    conds: conds.map(condition => ({
+      cond: condition.cond === undefined ? undefined : toGuard(condition.cond),
+      actions: condition.actions
+    }))
+  };
+}
+
+/**
+ * Returns an action that is resolved to the actions returned by the `getActions` function,
+ * as if they were specified inline. This allows actions such as `send(...)`, `assign(...)`
+ * and `cancel(...)` to be computed dynamically from the current `context` and `event`.
+ *
+ * @param getActions A pure function that takes in the current `context` and `event`
+ *  and returns the action(s) to execute.
+ */
+export function pure<TContext, TEvent extends EventObject>(
+  getActions: (
+    context: TContext,
+    event: TEvent
+  ) => SingleOrArray<Action<TContext, TEvent>> | undefined
+): PureAction<TContext, TEvent> {
+  return {
+    type: ActionTypes.Pure,
+    get: getActions
+  };
+}
+
 export function isActionObject<TContext, TEvent extends EventObject>(
   action: Action<TContext, TEvent>
 ): action is ActionObject<TContext, TEvent> {
@@ -380,6 +482,41 @@ export function doneInvoke(id: string, data?: any): DoneEvent {
   return eventObject as DoneEvent;
 }
 
+/**
+ * Returns an event that represents that an error occurred in (or was escalated by)
+ * an invoked service.
+ *
+ * @param id The invoked service ID
+ * @param data The error data to pass into the event
+ */
+export function errorPlatform(id: string, data?: any): ErrorPlatformEvent {
+  const type = `${ActionTypes.ErrorPlatform}.${id}`;
+  const eventObject = {
+    type,
+    data
+  };
+
+  eventObject.toString = () => type;
+
+  return eventObject;
+}
+
+/**
+ * Returns an event that represents that an invoked service has timed out.
+ *
+ * @param id The invoked service ID
+ */
+export function errorTimeout(id: string): ErrorTimeoutEvent {
+  const type = `${ActionTypes.ErrorTimeout}.${id}`;
+  const eventObject = {
+    type
+  };
+
+  eventObject.toString = () => type;
+
+  return eventObject;
+}
+
 export function error(data: any, src: string): ErrorExecutionEvent {
   return {
     src,
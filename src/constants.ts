@@ -2,3 +2,8 @@ import { ActivityMap } from './types';
 
 export const STATE_DELIMITER = '.';
 export const EMPTY_ACTIVITY_MAP: ActivityMap = {};
+export const WILDCARD = '*';
+/**
+ * The version of the format of serialized `State` instances (see `state.toJSON()`).
+ */
+export const STATE_SERIALIZATION_VERSION = 1;
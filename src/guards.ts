@@ -0,0 +1,131 @@
+import {
+  Action,
+  ActionTypes,
+  ChooseAction,
+  Condition,
+  EventObject,
+  Guard,
+  GuardCombinator,
+  GuardPredicate
+} from './types';
+import { flatten, isFunction, isString, toArray } from './utils';
+
+/**
+ * Converts the given condition (a guard name, guard object or inline
+ * predicate function) to a guard object.
+ *
+ * @param condition The condition to convert
+ */
+export function toGuard<TContext, TEvent extends EventObject>(
+  condition: Condition<TContext, TEvent>
+): Guard<TContext, TEvent> {
+  if (isString(condition)) {
+    return {
+      type: condition
+    };
+  }
+
+  if (isFunction(condition)) {
+    return {
+      type: 'xstate.cond',
+      predicate: condition
+    } as GuardPredicate<TContext, TEvent>;
+  }
+
+  return condition;
+}
+
+/**
+ * Returns the types of all guards referenced (by name) in the given guard,
+ * including the guards nested in guard combinators.
+ *
+ * @param guard The guard object
+ */
+export function getGuardTypes<TContext, TEvent extends EventObject>(
+  guard: Guard<TContext, TEvent>
+): string[] {
+  switch (guard.type) {
+    case 'xstate.cond':
+      return [];
+    case 'xstate.and':
+    case 'xstate.or':
+    case 'xstate.not':
+      return flatten(
+        (guard as GuardCombinator<TContext, TEvent>).guards.map(subGuard =>
+          getGuardTypes(subGuard)
+        )
+      );
+    default:
+      return [guard.type];
+  }
+}
+
+/**
+ * Returns the types of all guards referenced (by name) in the given action,
+ * including the guards of nested `choose(...)` actions.
+ *
+ * @param action The action
+ */
+export function getActionGuardTypes<TContext, TEvent extends EventObject>(
+  action: Action<TContext, TEvent>
+): string[] {
+  if (typeof action !== 'object' || action.type !== ActionTypes.Choose) {
+    return [];
+  }
+
+  return flatten(
+    (action as ChooseAction<TContext, TEvent>).conds.map(condition =>
+      (condition.cond ? getGuardTypes(condition.cond) : []).concat(
+        flatten(
+          toArray(condition.actions).map(subAction =>
+            getActionGuardTypes(subAction)
+          )
+        )
+      )
+    )
+  );
+}
+
+/**
+ * Returns a guard that passes only if all of the given guards pass.
+ * The guards are evaluated in order until one of them does not pass.
+ *
+ * @param conditions The guard names, guard objects or predicates to combine
+ */
+export function and<TContext, TEvent extends EventObject>(
+  conditions: Array<Condition<TContext, TEvent>>
+): GuardCombinator<TContext, TEvent> {
+  return {
+    type: 'xstate.and',
+    guards: conditions.map(condition => toGuard(condition))
+  };
+}
+
+/**
+ * Returns a guard that passes if any of the given guards pass.
+ * The guards are evaluated in order until one of them passes.
+ *
+ * @param conditions The guard names, guard objects or predicates to combine
+ */
+export function or<TContext, TEvent extends EventObject>(
+  conditions: Array<Condition<TContext, TEvent>>
+): GuardCombinator<TContext, TEvent> {
+  return {
+    type: 'xstate.or',
+    guards: conditions.map(condition => toGuard(condition))
+  };
+}
+
+/**
+ * Returns a guard that passes only if the given guard does not pass.
+ *
+ * @param condition The guard name, guard object or predicate to negate
+ */
+export function not<TContext, TEvent extends EventObject>(
+  condition: Condition<TContext, TEvent>
+): GuardCombinator<TContext, TEvent> {
+  return {
+    type: 'xstate.not',
+    guards: [toGuard(condition)]
+  };
+}
@@ -13,10 +13,22 @@ import {
   stop,
   assign,
   after,
-  done
+  done,
+  choose,
+  pure,
+  forwardTo,
+  respond,
+  escalate
 } from './actions';
 import { interpret, Interpreter, spawn } from './interpreter';
 import { matchState } from './match';
+import { and, or, not } from './guards';
+import {
+  createStreamInspector,
+  createInspectionReceiver,
+  formatInspectionEvent
+} from './inspect';
+import { waitFor } from './waitFor';
 
 const actions = {
   raise,
@@ -28,7 +40,12 @@ const actions = {
   stop,
   assign,
   after,
-  done
+  done,
+  choose,
+  pure,
+  forwardTo,
+  respond,
+  escalate
 };
 
 export {
@@ -44,7 +61,14 @@ export {
   interpret,
   Interpreter,
   matchState,
-  spawn
+  spawn,
+  and,
+  or,
+  not,
+  createStreamInspector,
+  createInspectionReceiver,
+  formatInspectionEvent,
+  waitFor
 };
 
 export * from './types';
@@ -0,0 +1,97 @@
+import { Inspector, InspectionEvent } from './types';
+import { IS_PRODUCTION } from './StateNode';
+import { warn } from './utils';
+
+/**
+ * A stream that inspection events can be written to, such as `process.stderr`
+ * or a `net.Socket` in Node.
+ */
+export interface InspectionWritable {
+  write(chunk: string): any;
+}
+
+/**
+ * Creates an inspector that writes each inspection event to the given stream as a
+ * line of JSON (newline-delimited JSON).
+ *
+ * @param stream The stream to write the inspection events to
+ */
+export function createStreamInspector(stream: InspectionWritable): Inspector {
+  return {
+    send: event => {
+      let serializedEvent: string;
+
+      try {
+        serializedEvent = JSON.stringify(event);
+      } catch (e) {
+        if (!IS_PRODUCTION) {
+          warn(
+            false,
+            `Unable to serialize inspection event '${
+              event.type
+            }' from service '${event.serviceId}': ${e.message}`
+          );
+        }
+        return;
+      }
+
+      stream.write(serializedEvent + '\n');
+    }
+  };
+}
+
+/**
+ * Creates a receiver for inspection events written by a stream inspector. The returned
+ * function should be called with each chunk of data read from the stream, e.g.,
+ * `socket.on('data', createInspectionReceiver(listener))`.
+ *
+ * @param listener The listener that is called with each received inspection event
+ */
+export function createInspectionReceiver(
+  listener: (event: InspectionEvent) => void
+): (chunk: { toString(): string }) => void {
+  let buffer = '';
+
+  return chunk => {
+    buffer += chunk.toString();
+
+    const lines = buffer.split('\n');
+
+    // The last line is incomplete until the next newline is received
+    buffer = lines.pop()!;
+
+    for (const line of lines) {
+      if (line.trim()) {
+        listener(JSON.parse(line));
+      }
+    }
+  };
+}
+
+/**
+ * Formats the inspection event as a human-readable line, for logging received inspection events.
+ *
+ * @param event The inspection event to format
+ */
+export function formatInspectionEvent(event: InspectionEvent): string {
+  const prefix = `[${event.time}] ${event.serviceId}`;
+
+  switch (event.type) {
+    case 'service.created':
+      return `${prefix} created${
+        event.parentId ? ` by ${event.parentId}` : ''
+      } (machine: ${event.machine.id})`;
+    case 'service.stopped':
+      return `${prefix} stopped`;
+    case 'event.received':
+      return `${prefix} received ${JSON.stringify(event.event)}`;
+    case 'state.transitioned':
+      return `${prefix} transitioned to ${JSON.stringify(event.state.value)}`;
+    case 'actor.spawned':
+      return `${prefix} spawned ${event.kind} ${event.actorId}`;
+    case 'actor.stopped':
+      return `${prefix} stopped ${event.actorId}`;
+    case 'action.executed':
+      return `${prefix} executed ${event.action.type}`;
+  }
+}
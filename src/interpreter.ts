@@ -21,24 +21,65 @@ import {
   StateValue,
   InterpreterOptions,
   ActivityDefinition,
-  SingleOrArray
+  SingleOrArray,
+  InterpreterSnapshot,
+  DelayedEventSnapshot,
+  ChildSnapshot,
+  EscalateAction,
+  ActorRef,
+  Subscribable,
+  RetryPolicy,
+  InvokeAbortController,
+  InterpreterMiddleware,
+  InspectionEvent,
+  ActorKind,
+  EventLogEntry,
+  Observer,
+  Subscription,
+  AsyncIteratorLike
 } from './types';
 import { State } from './State';
 import * as actionTypes from './actionTypes';
-import { toEventObject, doneInvoke, error } from './actions';
-import { IS_PRODUCTION } from './StateNode';
+import {
+  toEventObject,
+  doneInvoke,
+  error,
+  errorPlatform,
+  errorTimeout,
+  start
+} from './actions';
+import { IS_PRODUCTION, StateNode } from './StateNode';
 import {
   isPromiseLike,
+  isObservable,
+  createAbortController,
   mapContext,
   bindActionToState,
   warn,
   keys,
   isArray,
   isFunction,
-  isString
+  isString,
+  matchesEventDescriptor,
+  flatten
 } from './utils';
 import { Scheduler } from './scheduler';
 
+const symbolObservable: string =
+  (typeof Symbol === 'function' && (Symbol as any).observable) ||
+  '@@observable';
+
+const symbolAsyncIterator: string =
+  (typeof Symbol === 'function' && (Symbol as any).asyncIterator) ||
+  '@@asyncIterator';
+
+declare global {
+  interface SymbolConstructor {
+    readonly observable: symbol;
+    readonly asyncIterator: symbol;
+  }
+}
+
 export type StateListener<TContext, TEvent extends EventObject> = (
   state: State<TContext, TEvent>,
   event: OmniEventObject<TEvent>
@@ -56,6 +97,11 @@ export type Listener = () => void;
 export interface Clock {
   setTimeout(fn: (...args: any[]) => void, timeout: number): any;
   clearTimeout(id: any): void;
+  /**
+   * The current time, in milliseconds. Used to determine the remaining time of
+   * delayed events when a service snapshot is taken.
+   */
+  now?(): number;
 }
 
 export interface SimulatedClock extends Clock {
@@ -64,12 +110,33 @@ export interface SimulatedClock extends Clock {
   set(ms: number): void;
 }
 
+/**
+ * A timer that is pending in a `SimulatedClock`.
+ */
+export interface SimulatedTimer {
+  id: number;
+  /**
+   * The time at which the timer was set.
+   */
+  start: number;
+  timeout: number;
+  /**
+   * The time at which the timer fires (`start + timeout`).
+   */
+  time: number;
+}
+
 interface SimulatedTimeout {
   start: number;
   timeout: number;
   fn: (...args: any[]) => void;
 }
 export class SimulatedClock implements SimulatedClock {
+  /**
+   * The maximum number of timers that `.runAll()` fires before it assumes
+   * that timers are being set indefinitely.
+   */
+  public static maxTimers = 1000;
   private timeouts: Map<number, SimulatedTimeout> = new Map();
   private _now: number = 0;
   private _id: number = 0;
@@ -92,24 +159,94 @@ export class SimulatedClock implements SimulatedClock {
     this.timeouts.delete(id);
   }
   public set(time: number) {
+    this.runUntil(time);
+  }
+  public increment(ms: number): void {
+    this.runUntil(this._now + ms);
+  }
+  /**
+   * Returns the pending timers, in the order in which they will fire.
+   */
+  public getPendingTimers(): SimulatedTimer[] {
+    const timers: SimulatedTimer[] = [];
+
+    this.timeouts.forEach((timeout, id) => {
+      timers.push({
+        id,
+        start: timeout.start,
+        timeout: timeout.timeout,
+        time: timeout.start + timeout.timeout
+      });
+    });
+
+    // Timers that fire at the same time fire in the order they were set
+    return timers.sort((a, b) => a.time - b.time || a.id - b.id);
+  }
+  /**
+   * Advances the clock to the given time, firing the timers that expire until then
+   * in chronological order, including timers that are set while firing.
+   *
+   * @param time The time to advance the clock to
+   */
+  public runUntil(time: number): void {
     if (this._now > time) {
       throw new Error('Unable to travel back in time');
     }
 
+    let nextTimer = this.getPendingTimers()[0];
+
+    while (nextTimer && nextTimer.time <= time) {
+      this.fire(nextTimer);
+      nextTimer = this.getPendingTimers()[0];
+    }
+
     this._now = time;
-    this.flushTimeouts();
   }
-  private flushTimeouts() {
-    this.timeouts.forEach((timeout, id) => {
-      if (this.now() - timeout.start >= timeout.timeout) {
-        timeout.fn.call(null);
-        this.timeouts.delete(id);
+  /**
+   * Advances the clock to the time of the next pending timer, firing all of the timers
+   * that expire at that time.
+   *
+   * Returns `false` if there are no pending timers.
+   */
+  public advanceToNextTimer(): boolean {
+    const [nextTimer] = this.getPendingTimers();
+
+    if (!nextTimer) {
+      return false;
+    }
+
+    this.runUntil(Math.max(nextTimer.time, this._now));
+
+    return true;
+  }
+  /**
+   * Fires all pending timers in chronological order, including timers that are set
+   * while firing, until there are no pending timers left.
+   */
+  public runAll(): void {
+    let firedTimers = 0;
+    let nextTimer = this.getPendingTimers()[0];
+
+    while (nextTimer) {
+      if (firedTimers++ >= SimulatedClock.maxTimers) {
+        throw new Error(
+          `Unable to run all timers: more than ${
+            SimulatedClock.maxTimers
+          } timers were fired, which indicates that timers are being set indefinitely.`
+        );
       }
-    });
+
+      this.fire(nextTimer);
+      nextTimer = this.getPendingTimers()[0];
+    }
   }
-  public increment(ms: number): void {
-    this._now += ms;
-    this.flushTimeouts();
+  private fire(timer: SimulatedTimer): void {
+    const { fn } = this.timeouts.get(timer.id)!;
+
+    this.timeouts.delete(timer.id);
+    // Timers that were due before the current time fire at the current time
+    this._now = Math.max(timer.time, this._now);
+    fn.call(null);
   }
 }
 
@@ -118,6 +255,20 @@ export interface Actor {
   stop: (() => void) | void;
 }
 
+/**
+ * The observable and async iterator members of a service, which are keyed by
+ * `Symbol.observable` and `Symbol.asyncIterator` (or their `'@@observable'` and
+ * `'@@asyncIterator'` fallbacks) at runtime.
+ */
+export interface Interpreter<
+  TContext,
+  TStateSchema extends StateSchema = any,
+  TEvent extends EventObject = EventObject
+> {
+  [Symbol.observable](): Interpreter<TContext, TStateSchema, TEvent>;
+  [Symbol.asyncIterator](): AsyncIteratorLike<State<TContext, TEvent>>;
+}
+
 export class Interpreter<
   // tslint:disable-next-line:max-classes-per-file
   TContext,
@@ -139,7 +290,8 @@ export class Interpreter<
       },
       clearTimeout: id => {
         return global.clearTimeout.call(null, id);
-      }
+      },
+      now: () => Date.now()
     },
     logger: global.console.log.bind(console),
     devTools: false
@@ -153,23 +305,49 @@ export class Interpreter<
    */
   public clock: Clock;
   public options: Readonly<InterpreterOptions>;
+  /**
+   * The events processed by this service, if the `recordEvents` option is `true`.
+   */
+  public eventLog: Array<EventLogEntry<TEvent>> = [];
 
   private scheduler: Scheduler = new Scheduler();
   private delayedEventsMap: Record<string, number> = {};
+  private delayedEventsData: Record<
+    string,
+    {
+      sendAction: SendActionObject<TContext, TEvent>;
+      delay: number;
+      start: number;
+    }
+  > = {};
   private listeners: Set<StateListener<TContext, TEvent>> = new Set();
   private contextListeners: Set<ContextListener<TContext>> = new Set();
   private stopListeners: Set<Listener> = new Set();
   private doneListeners: Set<EventListener> = new Set();
   private eventListeners: Set<EventListener> = new Set();
   private sendListeners: Set<EventListener> = new Set();
+  private observers: Set<Observer<State<TContext, TEvent>>> = new Set();
+  private middleware: Array<InterpreterMiddleware<TContext, TEvent>> = [];
   private logger: (...args: any[]) => void;
   private initialized = false;
+  private stopped = false;
+  private replaying = false;
+  private batchCount = 0;
+  private stateHistory: Array<State<TContext, TEvent>> = [];
+  private stateHistoryIndex = -1;
 
   // Actor
   public parent?: Interpreter<any>;
   public id: string;
   private children: Map<string | number, Actor> = new Map();
+  private childKinds: Map<string | number, ActorKind> = new Map();
   private forwardTo: Set<string> = new Set();
+  private abortControllers: Map<string, InvokeAbortController> = new Map();
+  /**
+   * The actor that sent the event that is currently being processed, if any.
+   */
+  private origin?: Actor;
+  private childSnapshots: Map<string, ChildSnapshot> = new Map();
 
   // Dev Tools
   private devTools?: any;
@@ -205,6 +383,12 @@ export class Interpreter<
     this.scheduler = new Scheduler({
       deferEvents: this.options.deferEvents
     });
+
+    this.inspect(() => ({
+      type: 'service.created',
+      parentId: parent ? parent.id : undefined,
+      machine: machine.definition
+    }));
   }
   public static interpret = interpret;
   /**
@@ -219,8 +403,24 @@ export class Interpreter<
    * @param state The state whose actions will be executed
    */
   public execute(state: State<TContext, TEvent>): void {
+    const actionMiddleware = this.middleware
+      .filter(middleware => middleware.action)
+      .map(middleware => (action, next) =>
+        middleware.action!(action, state, next)
+      );
+
     for (const action of state.actions) {
-      this.exec(action, state.context, state.event);
+      pipe<ActionObject<TContext, OmniEventObject<TEvent>>>(
+        actionMiddleware,
+        action,
+        resolvedAction => {
+          this.inspect(() => ({
+            type: 'action.executed',
+            action: resolvedAction
+          }));
+          this.exec(resolvedAction, state.context, state.event);
+        }
+      );
     }
   }
   private update(
@@ -229,9 +429,10 @@ export class Interpreter<
   ): void {
     // Update state
     this.state = state;
+    this.addToHistory(state);
 
     // Execute actions
-    if (this.options.execute) {
+    if (this.options.execute && !this.replaying) {
       this.execute(this.state);
     }
 
@@ -239,6 +440,11 @@ export class Interpreter<
     if (this.devTools) {
       this.devTools.send(event, state);
     }
+    this.inspect(() => ({
+      type: 'state.transitioned',
+      state: state.toJSON(),
+      event
+    }));
 
     // Execute listeners
     if (state.event) {
@@ -251,6 +457,10 @@ export class Interpreter<
       listener(state, state.event);
     }
 
+    for (const observer of this.observers) {
+      observer.next(state);
+    }
+
     for (const contextListener of this.contextListeners) {
       contextListener(
         this.state.context,
@@ -332,6 +542,85 @@ export class Interpreter<
     this.doneListeners.add(listener);
     return this;
   }
+  /**
+   * Subscribes an observer to the states of this service, so that the service can be used as
+   * an observable (e.g., with RxJS `from(service)`). The observer is notified of:
+   *
+   * - `next`: the current state, if the service is running, and each subsequent state
+   * - `complete`: when the service is stopped, including when it reaches its final state,
+   *   or immediately if the service has already been stopped
+   * - `error`: when processing an event throws, such as for an unhandled `error.execution` event
+   *
+   * @param observer The observer, or the function that is called with each state
+   * @param onError The function that is called with the error
+   * @param onComplete The function that is called when the service is stopped
+   */
+  public subscribe(
+    observer: Partial<Observer<State<TContext, TEvent>>>
+  ): Subscription;
+  public subscribe(
+    next: (state: State<TContext, TEvent>) => void,
+    onError?: (error: any) => void,
+    onComplete?: () => void
+  ): Subscription;
+  public subscribe(
+    nextOrObserver:
+      | ((state: State<TContext, TEvent>) => void)
+      | Partial<Observer<State<TContext, TEvent>>>,
+    onError?: (error: any) => void,
+    onComplete?: () => void
+  ): Subscription {
+    const partialObserver = isFunction(nextOrObserver)
+      ? { next: nextOrObserver, error: onError, complete: onComplete }
+      : nextOrObserver;
+    const observer: Observer<State<TContext, TEvent>> = {
+      next: state => partialObserver.next && partialObserver.next(state),
+      error: err => partialObserver.error && partialObserver.error(err),
+      complete: () => partialObserver.complete && partialObserver.complete()
+    };
+
+    if (this.stopped) {
+      observer.complete();
+      return { unsubscribe: () => void 0 };
+    }
+
+    this.observers.add(observer);
+
+    if (this.initialized) {
+      observer.next(this.state);
+    }
+
+    return {
+      unsubscribe: () => {
+        this.observers.delete(observer);
+      }
+    };
+  }
+  /**
+   * Returns this service, which is observable (see `.subscribe(...)`).
+   */
+  public [symbolObservable](): Interpreter<TContext, TStateSchema, TEvent> {
+    return this;
+  }
+  /**
+   * Returns an async iterator over the states of this service, so that the states can be
+   * iterated with `for await (const state of service)`. The iteration ends when the service
+   * is stopped, and throws when processing an event throws.
+   */
+  public [symbolAsyncIterator](): AsyncIteratorLike<State<TContext, TEvent>> {
+    return toAsyncIterator(observer => this.subscribe(observer));
+  }
+  /**
+   * Adds a middleware that can intercept events before they are processed,
+   * and actions before they are executed. Middleware is run in the order it is added.
+   * @param middleware The middleware
+   */
+  public use(
+    middleware: InterpreterMiddleware<TContext, TEvent>
+  ): Interpreter<TContext, TStateSchema, TEvent> {
+    this.middleware.push(middleware);
+    return this;
+  }
   /**
    * Removes a listener.
    * @param listener The listener to remove
@@ -353,26 +642,206 @@ export class Interpreter<
   public init = this.start;
   /**
    * Starts the interpreter from the given state, or the initial state.
-   * @param initialState The state to start the statechart from
+   * @param initialState The state to start the statechart from, or a snapshot
+   * of a previously running service (see `.getSnapshot()`)
    */
   public start(
-    initialState?: State<TContext, TEvent> | StateValue
+    initialState?:
+      | State<TContext, TEvent>
+      | StateValue
+      | InterpreterSnapshot<TContext, TEvent>
   ): Interpreter<TContext, TStateSchema, TEvent> {
-    const resolvedState =
-      initialState === undefined
-        ? this.machine.initialState
-        : initialState instanceof State
-        ? this.machine.resolveState(initialState)
-        : this.machine.resolveState(State.from(initialState));
+    const snapshot = isInterpreterSnapshot<TContext, TEvent>(initialState)
+      ? initialState
+      : undefined;
     this.initialized = true;
+    this.stopped = false;
+
+    // Actors spawned in the initial state are spawned by this service
+    spawnContext.serviceStack.push(this.spawner);
+    let resolvedState: State<TContext, TEvent>;
+
+    try {
+      resolvedState =
+        initialState === undefined
+          ? this.machine.initialState
+          : snapshot
+          ? this.resolveSnapshotState(snapshot)
+          : initialState instanceof State
+          ? this.machine.resolveState(initialState)
+          : this.machine.resolveState(State.from(initialState as StateValue));
+    } finally {
+      spawnContext.serviceStack.pop();
+    }
+
     if (this.options.devTools) {
-      this.attachDev();
+      this.attachDev(resolvedState);
+    }
+    if (snapshot) {
+      const invokedIds = this.getInvokedIds(resolvedState);
+
+      for (const childSnapshot of snapshot.children) {
+        // Spawned children must be restorable before the service is started
+        if (invokedIds.indexOf(childSnapshot.id) === -1) {
+          this.resolveChildMachine(childSnapshot);
+        }
+
+        this.childSnapshots.set(childSnapshot.id, childSnapshot);
+      }
     }
     this.scheduler.initialize(() => {
+      this.record({ type: actionTypes.init });
       this.update(resolvedState, { type: actionTypes.init });
+
+      if (snapshot) {
+        this.restoreSnapshot(snapshot);
+      }
     });
     return this;
   }
+  /**
+   * Returns a JSON-serializable snapshot of the running service, which includes
+   * its current state, the remaining time of its pending delayed events, and the
+   * snapshots of its child services.
+   *
+   * The service can be resumed from the snapshot with `.start(snapshot)`.
+   */
+  public getSnapshot(): InterpreterSnapshot<TContext, TEvent> {
+    const now = this.now();
+
+    const delayedEvents = keys(this.delayedEventsData).map(
+      (id): DelayedEventSnapshot<TEvent> => {
+        const { sendAction, delay, start: startTime } = this.delayedEventsData[
+          id
+        ];
+
+        return {
+          id: sendAction.id,
+          event: sendAction.event,
+          to: sendAction.to,
+          delay: Math.max(0, delay - (now - startTime))
+        };
+      }
+    );
+
+    const children: ChildSnapshot[] = [];
+    this.children.forEach((child, id) => {
+      const kind = this.childKinds.get(id)!;
+
+      // Activities are restarted when the service is resumed
+      if (kind === 'activity') {
+        return;
+      }
+
+      children.push(
+        child instanceof Interpreter
+          ? {
+              id: child.id,
+              kind,
+              machine: child.machine.id,
+              autoForward: this.forwardTo.has(child.id),
+              snapshot: child.getSnapshot()
+            }
+          : {
+              id: `${id}`,
+              kind,
+              autoForward: this.forwardTo.has(`${id}`)
+            }
+      );
+    });
+
+    return {
+      state: this.state.toJSON(),
+      delayedEvents,
+      children
+    };
+  }
+  private resolveSnapshotState(
+    snapshot: InterpreterSnapshot<TContext, TEvent>
+  ): State<TContext, TEvent> {
+    const state = this.machine.deserializeState(snapshot.state);
+
+    // Activities and invoked services are not persisted,
+    // so the started ones are restarted.
+    for (const key of keys(state.activities)) {
+      const activity = state.activities[key];
+
+      if (activity) {
+        state.actions.push(start(activity));
+      }
+    }
+
+    return state;
+  }
+  /**
+   * Returns the IDs of the services invoked by the state nodes of the state, which are
+   * invoked again (instead of being spawned) when the service is resumed in that state.
+   */
+  private getInvokedIds(state: State<TContext, TEvent>): string[] {
+    return flatten(
+      [this.machine, ...this.machine.getStateNodes(state)].map(stateNode =>
+        stateNode.invoke.map(invokeDef => invokeDef.id)
+      )
+    );
+  }
+  /**
+   * Returns the machine of the spawned child in the snapshot, which must be found in the
+   * machine's `services` under its `id`. Throws if the child cannot be restored.
+   */
+  private resolveChildMachine(
+    childSnapshot: ChildSnapshot
+  ): StateMachine<any, any, any> {
+    if (childSnapshot.kind !== 'machine') {
+      throw new Error(
+        `Unable to restore the spawned ${childSnapshot.kind} '${
+          childSnapshot.id
+        }' on service '${
+          this.id
+        }': only spawned machines can be restored from a snapshot.`
+      );
+    }
+
+    const machine = this.machine.options.services[childSnapshot.machine!];
+
+    if (!machine || isString(machine) || isFunction(machine)) {
+      throw new Error(
+        `Unable to restore the spawned machine '${
+          childSnapshot.id
+        }' on service '${this.id}': machine '${
+          childSnapshot.machine
+        }' was not found in the machine's services.`
+      );
+    }
+
+    return machine as StateMachine<any, any, any>;
+  }
+  private restoreSnapshot(snapshot: InterpreterSnapshot<TContext, TEvent>) {
+    const invokedIds = this.getInvokedIds(this.state);
+
+    // Spawned child services, which are not restarted by an invocation
+    this.childSnapshots.forEach(childSnapshot => {
+      if (invokedIds.indexOf(childSnapshot.id) !== -1) {
+        return;
+      }
+
+      this.spawn(this.resolveChildMachine(childSnapshot), {
+        id: childSnapshot.id,
+        autoForward: childSnapshot.autoForward,
+        subscribe: true
+      });
+    });
+    this.childSnapshots.clear();
+
+    for (const delayedEvent of snapshot.delayedEvents) {
+      this.defer({
+        type: actionTypes.send,
+        id: delayedEvent.id,
+        event: delayedEvent.event as TEvent,
+        to: delayedEvent.to,
+        delay: delayedEvent.delay
+      });
+    }
+  }
   /**
    * Stops the interpreter and unsubscribe all listeners.
    *
@@ -387,6 +856,11 @@ export class Interpreter<
       listener();
       this.stopListeners.delete(listener);
     }
+    for (const observer of this.observers) {
+      // complete observer, then remove
+      observer.complete();
+      this.observers.delete(observer);
+    }
     for (const listener of this.contextListeners) {
       this.contextListeners.delete(listener);
     }
@@ -395,18 +869,27 @@ export class Interpreter<
     }
 
     // Stop all children
-    this.children.forEach(child => {
+    this.children.forEach((child, id) => {
       if (isFunction(child.stop)) {
         child.stop();
+        this.inspect(() => ({ type: 'actor.stopped', actorId: `${id}` }));
       }
     });
 
+    // Abort all invoked services
+    this.abortControllers.forEach(abortController => abortController.abort());
+    this.abortControllers.clear();
+
     // Cancel all delayed events
     for (const key of keys(this.delayedEventsMap)) {
       this.clock.clearTimeout(this.delayedEventsMap[key]);
     }
+    this.delayedEventsData = {};
 
     this.initialized = false;
+    this.stopped = true;
+
+    this.inspect(() => ({ type: 'service.stopped' }));
 
     return this;
   }
@@ -428,7 +911,31 @@ export class Interpreter<
       return this.state;
     }
 
-    const eventObject = toEventObject<OmniEventObject<TEvent>>(event, payload);
+    return this.receive(toEventObject<OmniEventObject<TEvent>>(event, payload));
+    // tslint:disable-next-line:semicolon
+  };
+
+  /**
+   * Passes the event through the event middleware, then schedules it to be processed,
+   * keeping track of the actor that sent it.
+   *
+   * @param eventObject The event to process
+   * @param origin The actor that sent the event, if any
+   */
+  private receive(
+    eventObject: OmniEventObject<TEvent>,
+    origin?: Actor
+  ): State<TContext, TEvent> {
+    pipe(
+      this.getEventMiddleware(),
+      eventObject,
+      resolvedEventObject => this.schedule(resolvedEventObject, origin)
+    );
+
+    return this.state; // TODO: deprecate (should return void)
+  }
+
+  private schedule(eventObject: OmniEventObject<TEvent>, origin?: Actor): void {
     if (!this.initialized && this.options.deferEvents) {
       // tslint:disable-next-line:no-console
       if (!IS_PRODUCTION) {
@@ -437,7 +944,7 @@ export class Interpreter<
           `Event "${eventObject.type}" was sent to uninitialized service "${
             this.machine.id
           }" and is deferred. Make sure .start() is called for this service.\nEvent: ${JSON.stringify(
-            event
+            eventObject
           )}`
         );
       }
@@ -453,17 +960,30 @@ export class Interpreter<
     }
 
     this.scheduler.schedule(() => {
-      const nextState = this.nextState(eventObject);
+      this.origin = origin;
+
+      this.inspect(() => ({ type: 'event.received', event: eventObject }));
+      this.record(eventObject);
+
+      try {
+        const nextState = this.nextState(eventObject);
 
-      this.update(nextState, eventObject);
+        this.update(nextState, eventObject);
+      } catch (e) {
+        this.notifyError(e);
+        throw e;
+      }
 
       // Forward copy of event to child interpreters
       this.forward(eventObject);
     });
+  }
 
-    return this.state; // TODO: deprecate (should return void)
-    // tslint:disable-next-line:semicolon
-  };
+  private getEventMiddleware() {
+    return this.middleware
+      .filter(middleware => middleware.event)
+      .map(middleware => middleware.event!);
+  }
 
   private batch(events: Array<OmniEvent<TEvent>>): void {
     if (!this.initialized && this.options.deferEvents) {
@@ -486,68 +1006,331 @@ export class Interpreter<
       );
     }
 
+    // Events that pass through the middleware synchronously are processed as a batch;
+    // events that are passed on later are processed individually.
+    const eventObjects: Array<OmniEventObject<TEvent>> = [];
+    let batching = true;
+
+    for (const event of events) {
+      pipe(
+        this.getEventMiddleware(),
+        toEventObject<OmniEventObject<TEvent>>(event),
+        resolvedEventObject => {
+          if (batching) {
+            eventObjects.push(resolvedEventObject);
+          } else {
+            this.schedule(resolvedEventObject);
+          }
+        }
+      );
+    }
+
+    batching = false;
+
+    if (eventObjects.length) {
+      this.scheduleBatch(eventObjects);
+    }
+  }
+
+  private scheduleBatch(eventObjects: Array<OmniEventObject<TEvent>>): void {
     this.scheduler.schedule(() => {
+      this.origin = undefined;
+
+      const batch = this.batchCount++;
       let nextState = this.state;
-      for (const event of events) {
-        const eventObject = toEventObject<OmniEventObject<TEvent>>(event);
-        const actions = nextState.actions.map(a =>
-          bindActionToState(a, nextState)
-        );
-        nextState = this.machine.transition(nextState, eventObject);
-        nextState.actions.unshift(...actions);
 
-        this.forward(eventObject);
-      }
+      try {
+        for (const eventObject of eventObjects) {
+          this.inspect(() => ({ type: 'event.received', event: eventObject }));
+          this.record(eventObject, batch);
 
-      this.update(
-        nextState,
-        toEventObject<OmniEventObject<TEvent>>(events[events.length - 1])
-      );
+          const actions = nextState.actions.map(a =>
+            bindActionToState(a, nextState)
+          );
+          // Actors spawned while transitioning are spawned by this service
+          spawnContext.serviceStack.push(this.spawner);
+
+          try {
+            nextState = this.machine.transition(nextState, eventObject);
+          } finally {
+            spawnContext.serviceStack.pop();
+          }
+          nextState.actions.unshift(...actions);
+
+          this.forward(eventObject);
+        }
+
+        this.update(nextState, eventObjects[eventObjects.length - 1]);
+      } catch (e) {
+        this.notifyError(e);
+        throw e;
+      }
     });
   }
 
   /**
-   * Returns a send function bound to this interpreter instance.
-   *
-   * @param event The event to be sent by the sender.
+   * Adds the event being processed to the event log, if events are being recorded.
    */
-  public sender = (event: Event<TEvent>): (() => State<TContext, TEvent>) => {
-    function sender() {
-      return this.send(event);
+  private record(eventObject: OmniEventObject<TEvent>, batch?: number): void {
+    if (!this.options.recordEvents) {
+      return;
     }
 
-    return sender.bind(this);
-  }
+    const entry: EventLogEntry<TEvent> = {
+      event: eventObject,
+      time: this.now()
+    };
+    const origin = this.getOriginTarget();
 
-  public sendTo = (event: OmniEventObject<TEvent>, to: string | number) => {
-    const isParent = to === SpecialTargets.Parent;
-    const target = isParent ? this.parent : this.children.get(to);
+    if (origin !== undefined) {
+      entry.origin = origin;
+    }
+    if (batch !== undefined) {
+      entry.batch = batch;
+    }
 
-    if (!target) {
-      if (!isParent) {
-        throw new Error(
-          `Unable to send event to child '${to}' from service '${this.id}'.`
-        );
-      }
+    this.eventLog.push(entry);
+  }
+  /**
+   * The past states of this service (oldest first), if the `historyLimit` option is set.
+   */
+  public get history(): Array<State<TContext, TEvent>> {
+    return this.stateHistory.slice();
+  }
+  /**
+   * The index of the current state in this service's `history`.
+   */
+  public get historyIndex(): number {
+    return this.stateHistoryIndex;
+  }
+  /**
+   * Restores the previous state in this service's `history`, if any.
+   */
+  public undo(): Interpreter<TContext, TStateSchema, TEvent> {
+    if (this.stateHistoryIndex > 0) {
+      this.jumpTo(this.stateHistoryIndex - 1);
+    }
 
-      // tslint:disable-next-line:no-console
-      if (!IS_PRODUCTION) {
-        warn(
-          false,
-          `Service '${this.id}' has no parent: unable to send event ${
-            event.type
-          }`
-        );
-      }
-      return;
+    return this;
+  }
+  /**
+   * Restores the next state in this service's `history` after it was undone, if any.
+   */
+  public redo(): Interpreter<TContext, TStateSchema, TEvent> {
+    if (this.stateHistoryIndex < this.stateHistory.length - 1) {
+      this.jumpTo(this.stateHistoryIndex + 1);
     }
 
-    target.send(event);
+    return this;
   }
   /**
-   * Returns the next state given the interpreter's current state and the event.
+   * Restores the state at the given index in this service's `history`, without executing
+   * its actions. The states after it can be restored with `.redo()` until the next event is processed.
    *
-   * This is a pure method that does _not_ update the interpreter's state.
+   * @param index The index of the state in `service.history`
+   */
+  public jumpTo(index: number): Interpreter<TContext, TStateSchema, TEvent> {
+    if (index < 0 || index >= this.stateHistory.length || index % 1 !== 0) {
+      throw new Error(
+        `Unable to jump to state ${index} in the history of service '${
+          this.id
+        }', which has ${
+          this.stateHistory.length
+        } state(s). Make sure the historyLimit option is set.`
+      );
+    }
+
+    this.stateHistoryIndex = index;
+    this.restore(this.stateHistory[index]);
+
+    return this;
+  }
+  private addToHistory(state: State<TContext, TEvent>): void {
+    const { historyLimit } = this.options;
+
+    if (!historyLimit) {
+      return;
+    }
+
+    // Processing an event discards the states that were undone
+    this.stateHistory = this.stateHistory.slice(0, this.stateHistoryIndex + 1);
+    this.stateHistory.push(state);
+
+    if (this.stateHistory.length > historyLimit) {
+      this.stateHistory.shift();
+    }
+
+    this.stateHistoryIndex = this.stateHistory.length - 1;
+  }
+  /**
+   * Sets the current state of this service to the given state and notifies the
+   * state and context listeners, without executing the state's actions.
+   */
+  private restore(state: State<TContext, TEvent>): void {
+    const previousContext = this.state.context;
+
+    this.state = state;
+
+    this.inspect(() => ({
+      type: 'state.transitioned',
+      state: state.toJSON(),
+      event: state.event
+    }));
+
+    for (const listener of this.listeners) {
+      listener(state, state.event);
+    }
+
+    for (const observer of this.observers) {
+      observer.next(state);
+    }
+
+    for (const contextListener of this.contextListeners) {
+      contextListener(state.context, previousContext);
+    }
+  }
+  /**
+   * Starts this service and processes the events of the given event log (see the `recordEvents`
+   * option) in order, reproducing the same sequence of states. Before each event is processed,
+   * the service's `SimulatedClock` is set to the time at which the event was recorded.
+   *
+   * Actions are not executed and actors are not spawned while the events are replayed, since the
+   * events that resulted from them (such as delayed events and events from child services) are
+   * replayed from the event log.
+   *
+   * @param eventLog The recorded event log
+   */
+  public replay(
+    eventLog: Array<EventLogEntry<TEvent>>
+  ): Interpreter<TContext, TStateSchema, TEvent> {
+    const { clock } = this;
+
+    if (this.initialized) {
+      throw new Error(
+        `Unable to replay events on service '${
+          this.id
+        }' because it has already been started.`
+      );
+    }
+    if (!(clock instanceof SimulatedClock)) {
+      throw new Error(
+        `Unable to replay events on service '${
+          this.id
+        }' without a SimulatedClock. ` +
+          `Provide one in the service options: interpret(machine, { clock: new SimulatedClock() }).`
+      );
+    }
+
+    this.replaying = true;
+
+    let index = 0;
+
+    if (eventLog.length && eventLog[0].event.type === actionTypes.init) {
+      clock.set(eventLog[0].time);
+      index++;
+    }
+
+    this.start();
+
+    while (index < eventLog.length) {
+      const { time, batch } = eventLog[index];
+
+      clock.set(time);
+
+      if (batch === undefined) {
+        this.schedule(eventLog[index++].event);
+      } else {
+        const eventObjects: Array<OmniEventObject<TEvent>> = [];
+
+        while (index < eventLog.length && eventLog[index].batch === batch) {
+          eventObjects.push(eventLog[index++].event);
+        }
+
+        this.scheduleBatch(eventObjects);
+      }
+    }
+
+    this.replaying = false;
+
+    return this;
+  }
+  /**
+   * Returns a send function bound to this interpreter instance.
+   *
+   * @param event The event to be sent by the sender.
+   */
+  public sender = (event: Event<TEvent>): (() => State<TContext, TEvent>) => {
+    function sender() {
+      return this.send(event);
+    }
+
+    return sender.bind(this);
+  }
+
+  public sendTo = (event: OmniEventObject<TEvent>, to: string | number) => {
+    const isParent = to === SpecialTargets.Parent;
+    const target = isParent ? this.parent : this.children.get(to);
+
+    if (!target) {
+      if (!isParent) {
+        throw new Error(
+          `Unable to send event to child '${to}' from service '${this.id}'.`
+        );
+      }
+
+      // tslint:disable-next-line:no-console
+      if (!IS_PRODUCTION) {
+        warn(
+          false,
+          `Service '${this.id}' has no parent: unable to send event ${
+            event.type
+          }`
+        );
+      }
+      return;
+    }
+
+    if (target instanceof Interpreter) {
+      target.receive(event, this);
+    } else {
+      target.send(event);
+    }
+  }
+
+  /**
+   * The service that spawns the actors spawned while this service is processing an event,
+   * or `null` while replaying events, since the replayed events already include the
+   * events from the actors that were spawned when the events were recorded.
+   */
+  private get spawner(): Interpreter<TContext, TStateSchema, TEvent> | null {
+    return this.replaying ? null : this;
+  }
+
+  /**
+   * Returns the target (relative to this service) of the actor that sent the event
+   * that is currently being processed, if that actor is the parent or a child of this service.
+   */
+  private getOriginTarget(): string | number | undefined {
+    if (!this.origin) {
+      return undefined;
+    }
+
+    if (this.origin === this.parent) {
+      return SpecialTargets.Parent;
+    }
+
+    for (const [id, child] of this.children) {
+      if (child === this.origin) {
+        return id;
+      }
+    }
+
+    return undefined;
+  }
+  /**
+   * Returns the next state given the interpreter's current state and the event.
+   *
+   * This is a pure method that does _not_ update the interpreter's state.
    *
    * @param event The event to determine the next state
    */
@@ -556,20 +1339,24 @@ export class Interpreter<
 
     if (
       eventObject.type === actionTypes.errorExecution &&
-      this.state.nextEvents.indexOf(actionTypes.errorExecution) === -1
+      !this.state.nextEvents.some(descriptor =>
+        matchesEventDescriptor(descriptor, actionTypes.errorExecution)
+      )
     ) {
       throw (eventObject as ErrorExecutionEvent).data;
     }
 
-    spawnContext.serviceStack.push(this);
-    const nextState = this.machine.transition(
-      this.state,
-      eventObject,
-      this.state.context
-    );
-    spawnContext.serviceStack.pop();
+    spawnContext.serviceStack.push(this.spawner);
 
-    return nextState;
+    try {
+      return this.machine.transition(
+        this.state,
+        eventObject,
+        this.state.context
+      );
+    } finally {
+      spawnContext.serviceStack.pop();
+    }
   }
   private forward(event: OmniEventObject<TEvent>): void {
     for (const id of this.forwardTo) {
@@ -615,7 +1402,15 @@ export class Interpreter<
       }
     }
 
+    this.delayedEventsData[sendAction.id] = {
+      sendAction,
+      delay: (delay as number) || 0,
+      start: this.now()
+    };
     this.delayedEventsMap[sendAction.id] = this.clock.setTimeout(() => {
+      delete this.delayedEventsMap[sendAction.id];
+      delete this.delayedEventsData[sendAction.id];
+
       if (sendAction.to) {
         this.sendTo(sendAction.event, sendAction.to);
       } else {
@@ -626,6 +1421,10 @@ export class Interpreter<
   private cancel(sendId: string | number): void {
     this.clock.clearTimeout(this.delayedEventsMap[sendId]);
     delete this.delayedEventsMap[sendId];
+    delete this.delayedEventsData[sendId];
+  }
+  private now(): number {
+    return this.clock.now ? this.clock.now() : Date.now();
   }
   private exec(
     action: ActionObject<TContext, OmniEventObject<TEvent>>,
@@ -637,8 +1436,28 @@ export class Interpreter<
     }
 
     switch (action.type) {
-      case actionTypes.send:
-        const sendAction = action as SendActionObject<TContext, TEvent>;
+      case actionTypes.send: {
+        let sendAction = action as SendActionObject<TContext, TEvent>;
+
+        if (sendAction.to === SpecialTargets.Origin) {
+          const originTarget = this.getOriginTarget();
+
+          if (originTarget === undefined) {
+            if (!IS_PRODUCTION) {
+              warn(
+                false,
+                `Unable to respond with event '${
+                  sendAction.event.type
+                }' from service '${
+                  this.id
+                }': the event being processed was not sent by its parent or a child service.`
+              );
+            }
+            break;
+          }
+
+          sendAction = { ...sendAction, to: originTarget };
+        }
 
         if (sendAction.delay) {
           this.defer(sendAction);
@@ -651,6 +1470,20 @@ export class Interpreter<
           }
         }
         break;
+      }
+
+      case actionTypes.escalate: {
+        const { data } = action as EscalateAction<TContext, TEvent>;
+
+        this.sendTo(
+          errorPlatform(
+            this.id,
+            isFunction(data) ? data(context, event) : data
+          ) as OmniEventObject<TEvent>,
+          SpecialTargets.Parent
+        );
+        break;
+      }
 
       case actionTypes.cancel:
         this.cancel((action as CancelAction).sendId);
@@ -691,14 +1524,32 @@ export class Interpreter<
             return;
           }
 
-          const source = isFunction(serviceCreator)
-            ? serviceCreator(context, event)
-            : serviceCreator;
+          // Each attempt (retried promises are created again) has its own
+          // abort controller, which is aborted when the attempt is canceled
+          const createSource = () => {
+            const abortController = createAbortController();
+            this.abortControllers.set(id, abortController);
+
+            return isFunction(serviceCreator)
+              ? serviceCreator(context, event, {
+                  src: activity.src,
+                  signal: abortController.signal
+                })
+              : serviceCreator!;
+          };
+          const source = createSource();
 
           if (isPromiseLike(source)) {
-            this.spawnPromise(id, Promise.resolve(source));
+            this.invokePromise(
+              id,
+              source,
+              activity,
+              createSource as () => PromiseLike<any>
+            );
           } else if (isFunction(source)) {
             this.spawnCallback(id, source);
+          } else if (isObservable<EventObject>(source)) {
+            this.spawnObservable(id, source);
           } else if (typeof source !== 'string') {
             // TODO: try/catch here
             this.spawn(
@@ -747,11 +1598,19 @@ export class Interpreter<
     return undefined;
   }
   private stopChild(childId: string): void {
+    const abortController = this.abortControllers.get(childId);
+    if (abortController) {
+      this.abortControllers.delete(childId);
+      abortController.abort();
+    }
+
     const child = this.children.get(childId);
     if (child && isFunction(child.stop)) {
       child.stop();
       this.children.delete(childId);
+      this.childKinds.delete(childId);
       this.forwardTo.delete(childId);
+      this.inspect(() => ({ type: 'actor.stopped', actorId: childId }));
     }
   }
   public spawn<
@@ -764,7 +1623,9 @@ export class Interpreter<
   ): Interpreter<TChildContext, TChildStateSchema, TChildEvents> {
     const childService = new Interpreter(machine, {
       parent: this,
-      id: options.id || machine.id
+      id: options.id || machine.id,
+      clock: this.clock,
+      inspector: this.options.inspector
     });
 
     if (options.subscribe) {
@@ -773,13 +1634,20 @@ export class Interpreter<
       });
     }
 
-    childService
-      .onDone(doneEvent => {
-        this.send(doneEvent as OmniEvent<TEvent>); // todo: fix
-      })
-      .start();
+    childService.onDone(doneEvent => {
+      this.send(doneEvent as OmniEvent<TEvent>); // todo: fix
+    });
+
+    const childSnapshot = this.childSnapshots.get(childService.id);
+
+    if (childSnapshot && childSnapshot.snapshot) {
+      this.childSnapshots.delete(childService.id);
+      childService.start(childSnapshot.snapshot);
+    } else {
+      childService.start();
+    }
 
-    this.children.set(childService.id, childService);
+    this.addChild(childService.id, childService, 'machine');
 
     if (options.autoForward) {
       this.forwardTo.add(childService.id);
@@ -787,48 +1655,161 @@ export class Interpreter<
 
     return childService;
   }
-  private spawnPromise(id: string, promise: Promise<any>): void {
+  /**
+   * Spawns the given promise as a child of this service. When the promise resolves,
+   * a `done.invoke.<id>` event is sent to this service with the resolved data; when it
+   * rejects, an `error.execution` event is sent instead.
+   *
+   * @param id The unique ID of the spawned promise
+   * @param promise The promise to spawn
+   */
+  public spawnPromise<T>(
+    id: string,
+    promise: PromiseLike<T>
+  ): ActorRef<never, T> {
+    return this.invokePromise(id, promise, {});
+  }
+  /**
+   * Runs the given promise as a child of this service, restarting it with `restart`
+   * according to the `retry` policy when it rejects or does not settle within `timeout`.
+   * Once all retries fail, an `error.timeout.<id>` event is sent if the last attempt
+   * timed out; otherwise, an `error.execution` event is sent.
+   */
+  private invokePromise<T>(
+    id: string,
+    promise: PromiseLike<T>,
+    options: { timeout?: number; retry?: RetryPolicy },
+    restart: () => PromiseLike<T> = () => promise
+  ): ActorRef<never, T> {
+    const { timeout, retry } = options;
     let canceled = false;
+    let resolvedData: T | undefined;
+    let attempt = 0;
+    let timerId: number | undefined;
+
+    const clearTimer = () => {
+      if (timerId !== undefined) {
+        this.clock.clearTimeout(timerId);
+        timerId = undefined;
+      }
+    };
 
-    promise
-      .then(response => {
-        if (!canceled) {
-          this.send(doneInvoke(id, response));
+    const fail = (errorData: any, timedOut: boolean) => {
+      if (retry && attempt < retry.attempts) {
+        const delay = retry.delay === undefined ? 1000 : retry.delay;
+
+        timerId = this.clock.setTimeout(
+          () => {
+            timerId = undefined;
+            attempt++;
+
+            let nextPromise: PromiseLike<T>;
+
+            try {
+              nextPromise = restart();
+            } catch (e) {
+              nextPromise = Promise.reject(e);
+            }
+
+            run(nextPromise);
+          },
+          retry.backoff === 'exponential' ? delay * Math.pow(2, attempt) : delay
+        );
+      } else if (timedOut) {
+        this.send(errorTimeout(id) as OmniEventObject<TEvent>);
+      } else {
+        this.sendError(errorData, id);
+      }
+    };
+
+    const run = (attemptPromise: PromiseLike<T>) => {
+      let settled = false;
+
+      // Only the first settlement of the current attempt counts; a promise
+      // that settles after it timed out is ignored.
+      const settle = () => {
+        if (settled || canceled) {
+          return false;
         }
-      })
-      .catch(errorData => {
-        if (!canceled) {
-          const errorEvent = error(errorData, id);
-          try {
-            // Send "error.execution" to this (parent).
-            this.send(errorEvent);
-          } catch (error) {
-            if (!IS_PRODUCTION) {
-              this.reportUnhandledExceptionOnInvocation(errorData, error, id);
+        settled = true;
+        clearTimer();
+        return true;
+      };
+
+      if (timeout !== undefined) {
+        timerId = this.clock.setTimeout(() => {
+          timerId = undefined;
+          if (settle()) {
+            // Cancel the timed out attempt before it is retried
+            const abortController = this.abortControllers.get(id);
+
+            if (abortController) {
+              this.abortControllers.delete(id);
+              abortController.abort();
             }
-            if (this.devTools) {
-              this.devTools.send(errorEvent, this.state);
+
+            fail(undefined, true);
+          }
+        }, timeout);
+      }
+
+      Promise.resolve(attemptPromise)
+        .then(
+          response => {
+            if (settle()) {
+              resolvedData = response;
+              this.send(doneInvoke(id, response));
             }
-            if (this.machine.strict) {
-              // it would be better to always stop the state machine if unhandled
-              // exception/promise rejection happens but because we don't want to
-              // break existing code so enforce it on strict mode only especially so
-              // because documentation says that onError is optional
-              this.stop();
+          },
+          errorData => {
+            if (settle()) {
+              fail(errorData, false);
             }
           }
-        }
-      });
+        )
+        .catch(errorData => {
+          if (!canceled) {
+            this.sendError(errorData, id);
+          }
+        });
+    };
+
+    run(promise);
 
-    this.children.set(id, {
+    const actor = {
+      id,
       send: () => void 0,
       stop: () => {
         canceled = true;
-      }
-    });
+        clearTimer();
+      },
+      get state() {
+        return resolvedData;
+      },
+      toJSON: () => ({ id })
+    };
+
+    this.addChild(id, actor, 'promise');
+
+    return actor;
   }
-  private spawnCallback(id: string, callback: InvokeCallback): void {
-    const receive = (e: TEvent) => this.send(e);
+  /**
+   * Spawns the given callback as a child of this service. The callback can send events
+   * to this service, and receive events sent to it with `send(..., { to: id })`.
+   * The function returned from the callback (if any) is called when the child is stopped.
+   *
+   * @param id The unique ID of the spawned callback
+   * @param callback The callback to spawn
+   */
+  public spawnCallback(id: string, callback: InvokeCallback): ActorRef<any> {
+    const actor = {
+      id,
+      send: (e: EventObject) => listener(e),
+      stop: undefined as (() => void) | undefined,
+      state: undefined,
+      toJSON: () => ({ id })
+    };
+    const receive = (e: TEvent) => this.receive(toEventObject(e), actor);
     let listener = (e: EventObject) => {
       if (!IS_PRODUCTION) {
         warn(
@@ -849,34 +1830,97 @@ export class Interpreter<
 
       if (isPromiseLike(stop)) {
         Promise.resolve(stop).catch(e => {
-          const errorEvent = error(e, id);
-          try {
-            this.send(errorEvent);
-          } catch (error) {
-            if (!IS_PRODUCTION) {
-              this.reportUnhandledExceptionOnInvocation(e, error, id);
-            }
-            if (this.devTools) {
-              this.devTools.send(errorEvent, this.state);
-            }
-            if (this.machine.strict) {
-              // it would be better to always stop the state machine if unhandled
-              // exception/promise rejection happens but because we don't want to
-              // break existing code so enforce it on strict mode only especially so
-              // because documentation says that onError is optional
-              this.stop();
-            }
-          }
+          this.sendError(e, id);
         });
       }
     } catch (e) {
       this.send(error(e, id));
     }
 
-    this.children.set(id, {
-      send: listener,
-      stop
-    });
+    actor.stop = isFunction(stop) ? stop : undefined;
+    this.addChild(id, actor, 'callback');
+
+    return actor;
+  }
+  /**
+   * Spawns the given observable as a child of this service. Each value emitted by the
+   * observable is sent to this service as an event. When the observable completes, a
+   * `done.invoke.<id>` event is sent to this service; when it errors, an `error.execution`
+   * event is sent instead. The observable is unsubscribed from when the child is stopped.
+   *
+   * @param id The unique ID of the spawned observable
+   * @param source The observable to spawn
+   */
+  public spawnObservable<T extends EventObject>(
+    id: string,
+    source: Subscribable<T>
+  ): ActorRef<never, T> {
+    let emitted: T | undefined;
+
+    const actor = {
+      id,
+      send: () => void 0,
+      stop: () => {
+        subscription.unsubscribe();
+      },
+      get state() {
+        return emitted;
+      },
+      toJSON: () => ({ id })
+    };
+
+    const subscription = source.subscribe(
+      value => {
+        emitted = value;
+        this.receive(toEventObject(value) as OmniEventObject<TEvent>, actor);
+      },
+      errorData => {
+        this.sendError(errorData, id);
+      },
+      () => {
+        this.send(doneInvoke(id));
+      }
+    );
+
+    this.addChild(id, actor, 'observable');
+
+    return actor;
+  }
+  /**
+   * Notifies the observers of this service of the error and unsubscribes them.
+   */
+  private notifyError(err: any): void {
+    for (const observer of this.observers) {
+      // notify observer, then remove
+      this.observers.delete(observer);
+      observer.error(err);
+    }
+  }
+  /**
+   * Sends an `error.execution` event for the child with the given `id` to this service,
+   * reporting the error if the event is not handled.
+   */
+  private sendError(errorData: any, id: string): void {
+    const errorEvent = error(errorData, id);
+
+    try {
+      // Send "error.execution" to this (parent).
+      this.send(errorEvent);
+    } catch (e) {
+      if (!IS_PRODUCTION) {
+        this.reportUnhandledExceptionOnInvocation(errorData, e, id);
+      }
+      if (this.devTools) {
+        this.devTools.send(errorEvent, this.state);
+      }
+      if (this.machine.strict) {
+        // it would be better to always stop the state machine if unhandled
+        // exception/promise rejection happens but because we don't want to
+        // break existing code so enforce it on strict mode only especially so
+        // because documentation says that onError is optional
+        this.stop();
+      }
+    }
   }
   private spawnActivity(activity: ActivityDefinition<TContext, TEvent>): void {
     const implementation =
@@ -900,10 +1944,33 @@ export class Interpreter<
     id: string,
     dispose?: DisposeActivityFunction | void
   ): void {
-    this.children.set(id, {
-      send: () => void 0,
-      stop: dispose
-    });
+    this.addChild(
+      id,
+      {
+        send: () => void 0,
+        stop: dispose
+      },
+      'activity'
+    );
+  }
+  private addChild(id: string, actor: Actor, kind: ActorKind): void {
+    this.children.set(id, actor);
+    this.childKinds.set(id, kind);
+    this.inspect(() => ({ type: 'actor.spawned', actorId: id, kind }));
+  }
+  /**
+   * Sends the inspection event created by `getPayload` to the inspector, if any.
+   */
+  private inspect(getPayload: () => InspectionPayload): void {
+    const { inspector } = this.options;
+
+    if (inspector) {
+      inspector.send({
+        ...getPayload(),
+        serviceId: this.id,
+        time: this.now()
+      } as InspectionEvent);
+    }
   }
   private reportUnhandledExceptionOnInvocation(
     originalError: any,
@@ -929,7 +1996,7 @@ export class Interpreter<
       );
     }
   }
-  private attachDev() {
+  private attachDev(initialState: State<TContext, TEvent>) {
     if (
       this.options.devTools &&
       typeof window !== 'undefined' &&
@@ -938,27 +2005,278 @@ export class Interpreter<
       this.devTools = (window as any).__REDUX_DEVTOOLS_EXTENSION__.connect({
         name: this.id,
         features: {
-          jump: false,
-          skip: false
+          jump: true,
+          skip: true
         }
       });
-      this.devTools.init(this.state);
+      this.devTools.subscribe((message: any) =>
+        this.receiveDevToolsMessage(message)
+      );
+      this.devTools.init(initialState);
+    }
+  }
+  /**
+   * Restores the states that the DevTools jumped to, or recomputed after skipping (toggling) an event.
+   */
+  private receiveDevToolsMessage(message: any): void {
+    if (message.type !== 'DISPATCH' || !message.state) {
+      return;
+    }
+
+    switch (message.payload.type) {
+      case 'JUMP_TO_STATE':
+      case 'JUMP_TO_ACTION':
+        this.restore(this.machine.deserializeState(JSON.parse(message.state)));
+        break;
+      case 'TOGGLE_ACTION': {
+        const liftedState = JSON.parse(message.state);
+        const { id } = message.payload;
+        const skippedActionIds: number[] = liftedState.skippedActionIds;
+
+        liftedState.skippedActionIds =
+          skippedActionIds.indexOf(id) === -1
+            ? skippedActionIds.concat(id)
+            : skippedActionIds.filter(skippedId => skippedId !== id);
+
+        // Recompute the states from the initial state, without the skipped events
+        let state = this.machine.deserializeState(
+          liftedState.computedStates[0].state
+        );
+        liftedState.computedStates = liftedState.stagedActionIds.map(
+          (actionId: number, index: number) => {
+            if (
+              index > 0 &&
+              liftedState.skippedActionIds.indexOf(actionId) === -1
+            ) {
+              state = this.machine.transition(
+                state,
+                liftedState.actionsById[actionId].action
+              );
+            }
+
+            return { state };
+          }
+        );
+
+        this.restore(
+          liftedState.computedStates[liftedState.currentStateIndex].state
+        );
+        this.devTools.send(null, liftedState);
+        break;
+      }
     }
   }
 }
 
+/**
+ * An inspection event without the `serviceId` and `time`, which are added by the service.
+ */
+type InspectionPayload<T = InspectionEvent> = T extends InspectionEvent
+  ? Pick<T, Exclude<keyof T, 'serviceId' | 'time'>>
+  : never;
+
+function isInterpreterSnapshot<TContext, TEvent extends EventObject>(
+  value: any
+): value is InterpreterSnapshot<TContext, TEvent> {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    !(value instanceof State) &&
+    isArray(value.delayedEvents) &&
+    isArray(value.children)
+  );
+}
+
+/**
+ * Creates an async iterator over the values sent to the observer that is passed to `subscribe`.
+ * Values that are sent before they are requested are buffered.
+ */
+function toAsyncIterator<T>(
+  subscribe: (observer: Observer<T>) => Subscription
+): AsyncIteratorLike<T> {
+  const doneResult: IteratorResult<T> = { value: undefined as any, done: true };
+  const values: T[] = [];
+  const requests: Array<{
+    resolve: (result: IteratorResult<T>) => void;
+    reject: (error: any) => void;
+  }> = [];
+  let done = false;
+  let failure: { error: any } | undefined;
+
+  const subscription = subscribe({
+    next: value => {
+      const request = requests.shift();
+
+      if (request) {
+        request.resolve({ value, done: false });
+      } else {
+        values.push(value);
+      }
+    },
+    error: err => {
+      done = true;
+      failure = { error: err };
+      requests.splice(0).forEach(request => request.reject(err));
+    },
+    complete: () => {
+      done = true;
+      requests.splice(0).forEach(request => request.resolve(doneResult));
+    }
+  });
+
+  return {
+    next: () => {
+      if (values.length) {
+        return Promise.resolve({ value: values.shift()!, done: false });
+      }
+
+      if (failure) {
+        return Promise.reject(failure.error);
+      }
+
+      if (done) {
+        return Promise.resolve(doneResult);
+      }
+
+      return new Promise((resolve, reject) => {
+        requests.push({ resolve, reject });
+      });
+    },
+    return: () => {
+      subscription.unsubscribe();
+      done = true;
+      values.length = 0;
+      requests.splice(0).forEach(request => request.resolve(doneResult));
+
+      return Promise.resolve(doneResult);
+    }
+  };
+}
+
+/**
+ * Passes the value through each of the handlers in order, and then to `done`.
+ * A handler that does not call `next` stops the value from being passed on.
+ */
+function pipe<T>(
+  handlers: Array<(value: T, next: (value: T) => void) => void>,
+  value: T,
+  done: (value: T) => void
+): void {
+  const next = (index: number) => (nextValue: T) => {
+    if (index === handlers.length) {
+      done(nextValue);
+    } else {
+      handlers[index](nextValue, next(index + 1));
+    }
+  };
+
+  next(0)(value);
+}
+
 export const spawnContext = {
-  serviceStack: [] as Array<Interpreter<any, any>>
+  // A `null` entry means that actors are not spawned (e.g., while replaying events)
+  serviceStack: [] as Array<Interpreter<any, any> | null>
 };
 
-export function spawn(machine: StateMachine<any, any, any>, id?: string) {
+function toActorRef<TChildContext, TChildEvent extends EventObject>(
+  service: Interpreter<TChildContext, any, TChildEvent>
+): ActorRef<TChildEvent, State<TChildContext, TChildEvent>> {
+  return {
+    id: service.id,
+    send: event => {
+      service.send(event);
+    },
+    get state() {
+      return service.state;
+    },
+    toJSON: () => ({ id: service.id })
+  };
+}
+
+/**
+ * Spawns the given entity as a child of the service that is currently processing
+ * an event (e.g., from within an `assign(...)` action), and returns a reference to it.
+ *
+ * The entity can be a machine, a promise, a callback (as in `invoke`) or an observable.
+ *
+ * @param entity The entity to spawn
+ * @param id The unique ID of the spawned child (defaults to the machine ID for machines)
+ */
+export function spawn<
+  TChildContext,
+  TChildStateSchema,
+  TChildEvent extends EventObject
+>(
+  machine: StateMachine<TChildContext, TChildStateSchema, TChildEvent>,
+  id?: string
+): ActorRef<TChildEvent, State<TChildContext, TChildEvent>>;
+export function spawn<T>(
+  promise: PromiseLike<T>,
+  id: string
+): ActorRef<never, T>;
+export function spawn<T extends EventObject>(
+  observable: Subscribable<T>,
+  id: string
+): ActorRef<never, T>;
+export function spawn(callback: InvokeCallback, id: string): ActorRef<any>;
+export function spawn(
+  entity:
+    | StateMachine<any, any, any>
+    | PromiseLike<any>
+    | Subscribable<any>
+    | InvokeCallback,
+  id?: string
+): ActorRef<any> {
+  const resolvedId = id || (entity instanceof StateNode ? entity.id : '');
+
   if (spawnContext.serviceStack.length) {
     const service =
       spawnContext.serviceStack[spawnContext.serviceStack.length - 1];
-    const actor = service.spawn(machine, { id, subscribe: true });
 
-    return { id: actor.id, parent: service.id, send: actor.send };
+    if (!service) {
+      return createNullActorRef(resolvedId);
+    }
+
+    if (entity instanceof StateNode) {
+      return toActorRef(
+        service.spawn(entity as StateMachine<any, any, any>, {
+          id: resolvedId,
+          subscribe: true
+        })
+      );
+    } else if (isPromiseLike(entity)) {
+      return service.spawnPromise(resolvedId, entity);
+    } else if (isFunction(entity)) {
+      return service.spawnCallback(resolvedId, entity);
+    } else if (isObservable<EventObject>(entity)) {
+      return service.spawnObservable(resolvedId, entity);
+    }
+
+    throw new Error(
+      `Unable to spawn entity with ID '${resolvedId}' from service '${
+        service.id
+      }': the entity must be a machine, promise, callback or observable.`
+    );
+  }
+
+  if (!IS_PRODUCTION) {
+    warn(
+      false,
+      `Attempted to spawn an actor with ID '${resolvedId}' outside of a service. ` +
+        `This actor will not be spawned and events sent to it will be ignored.`
+    );
   }
+
+  return createNullActorRef(resolvedId);
+}
+
+function createNullActorRef(id: string): ActorRef<any> {
+  return {
+    id,
+    send: () => void 0,
+    state: undefined,
+    toJSON: () => ({ id })
+  };
 }
 
 /**
@@ -1,9 +1,54 @@
 import { js2xml, xml2js, Element as XMLElement } from 'xml-js';
-import { EventObject, ActionObject } from './types';
+import {
+  EventObject,
+  ActionObject,
+  ActorRef,
+  AssignAction,
+  CancelAction,
+  ChooseAction,
+  Condition,
+  EscalateAction,
+  Guard,
+  GuardCombinator,
+  GuardPredicate,
+  InvokeConfig,
+  InvokeDefinition,
+  Mapper,
+  PropertyAssigner,
+  PureAction,
+  RaiseEvent,
+  SendAction,
+  SingleOrArray,
+  SpecialTargets,
+  StateValue,
+  TransitionDefinition
+} from './types';
 // import * as xstate from './index';
-import { StateNode, Machine } from './index';
-import { mapValues, getActionType, keys, isString } from './utils';
+import { StateNode, Machine, State } from './index';
+import {
+  mapValues,
+  keys,
+  isString,
+  isFunction,
+  flatten,
+  toArray,
+  getEventType,
+  toStatePaths,
+  toStateValue,
+  warn,
+  isArray,
+  pathToStateValue
+} from './utils';
 import * as actions from './actions';
+import { toActionObject, toEventObject } from './actions';
+import * as actionTypes from './actionTypes';
+import { IS_PRODUCTION } from './StateNode';
+import { STATE_DELIMITER } from './constants';
+// The Node modules are only imported for their types: they are loaded when they are used, so
+// that documents can be imported outside of Node with the `sandbox` and `resolveSrc` options
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vm from 'vm';
 
 function getAttribute(
   element: XMLElement,
@@ -12,125 +57,617 @@ function getAttribute(
   return element.attributes ? element.attributes[attribute] : undefined;
 }
 
-function stateNodeToSCXML(stateNode: StateNode) {
-  const { parallel } = stateNode;
+const SCXML_NAMESPACE = 'http://www.w3.org/2005/07/scxml';
 
-  const scxmlElement: XMLElement = {
+const SCXML_INVOKE_TYPE = 'http://www.w3.org/TR/scxml/';
+
+/**
+ * The `type` attribute values of `<invoke>` elements that invoke SCXML documents.
+ */
+const SCXML_INVOKE_TYPES = [
+  SCXML_INVOKE_TYPE,
+  'http://www.w3.org/TR/scxml',
+  'scxml'
+];
+
+/**
+ * The `type` attribute values of `<send>` elements that send events to SCXML sessions.
+ */
+const SCXML_SEND_TYPES = [
+  'http://www.w3.org/TR/scxml/#SCXMLEventProcessor',
+  'scxml'
+];
+
+/**
+ * The ECMAScript expression that recreates the event object from the SCXML `_event`,
+ * whose `data` contains the properties of the event other than its `type`.
+ */
+const EVENT_EXPR = 'Object.assign({ type: _event.name }, _event.data)';
+
+function createElement(
+  name: string,
+  attributes?: Record<string, string | number | undefined>,
+  elements?: Array<XMLElement | undefined>
+): XMLElement {
+  const definedAttributes: Record<string, string | number> = {};
+
+  if (attributes) {
+    keys(attributes).forEach(key => {
+      if (attributes[key] !== undefined) {
+        definedAttributes[key] = attributes[key]!;
+      }
+    });
+  }
+
+  const definedElements = elements
+    ? (elements.filter(Boolean) as XMLElement[])
+    : [];
+
+  return {
     type: 'element',
-    name: parallel ? 'parallel' : 'state',
-    attributes: {
-      id: stateNode.id
+    name,
+    ...(keys(definedAttributes).length
+      ? { attributes: definedAttributes }
+      : undefined),
+    ...(definedElements.length ? { elements: definedElements } : undefined)
+  };
+}
+
+/**
+ * The ECMAScript expression for the machine's context, built from the data model
+ * variables (one for each property of the machine's initial context).
+ */
+function contextExpr(machine: StateNode): string {
+  return machine.context
+    ? `{ ${keys(machine.context)
+        .map(key => `${key}: ${key}`)
+        .join(', ')} }`
+    : 'undefined';
+}
+
+/**
+ * The ECMAScript expression that calls the function (or the function referenced by name,
+ * which is expected to be provided by the data model) with the context and event.
+ */
+function callExpr(
+  fn: ((...args: any[]) => any) | string,
+  machine: StateNode,
+  ...args: string[]
+): string {
+  const fnExpr = isString(fn) ? fn : `(${fn.toString()})`;
+
+  return `${fnExpr}(${[contextExpr(machine), EVENT_EXPR, ...args].join(', ')})`;
+}
+
+function valueExpr(value: any, machine: StateNode): string {
+  return isFunction(value)
+    ? callExpr(value, machine)
+    : value === undefined
+    ? 'undefined'
+    : JSON.stringify(value);
+}
+
+function paramElements(
+  mapper: Record<string, any>,
+  machine: StateNode
+): XMLElement[] {
+  return keys(mapper).map(key =>
+    createElement('param', {
+      name: key,
+      expr: valueExpr(mapper[key], machine)
+    })
+  );
+}
+
+function guardToExpr(guard: Guard<any, any>, machine: StateNode): string {
+  switch (guard.type) {
+    case 'xstate.cond':
+      return callExpr((guard as GuardPredicate<any, any>).predicate, machine);
+    case 'xstate.and':
+    case 'xstate.or':
+      return (guard as GuardCombinator<any, any>).guards
+        .map(subGuard => `(${guardToExpr(subGuard, machine)})`)
+        .join(guard.type === 'xstate.and' ? ' && ' : ' || ');
+    case 'xstate.not':
+      return `!(${guardToExpr(
+        (guard as GuardCombinator<any, any>).guards[0],
+        machine
+      )})`;
+    default:
+      // Named guards are called by name, so that the data model can provide them
+      return callExpr(
+        guard.type,
+        machine,
+        `{ cond: ${JSON.stringify(guard)} }`
+      );
+  }
+}
+
+function inStateToExpr(stateIn: StateValue, stateNode: StateNode): string {
+  // "In state" guards are either state IDs or state values relative to the grandparent
+  if (isString(stateIn) && stateIn[0] === '#') {
+    return `In('${stateNode.getStateNodeById(stateIn).id}')`;
+  }
+
+  const relativeStateNode = stateNode.machine.getStateNodeByPath(
+    stateNode.path.slice(0, -2)
+  );
+
+  return toStatePaths(toStateValue(stateIn, stateNode.delimiter))
+    .map(
+      statePath => `In('${relativeStateNode.getStateNodeByPath(statePath).id}')`
+    )
+    .join(' && ');
+}
+
+function resolveTargetId(target: string, stateNode: StateNode): string {
+  if (target[0] === '#') {
+    return stateNode.getStateNodeById(target).id;
+  }
+
+  // Transition targets are relative to the parent state node
+  return (stateNode.parent || stateNode).getStateNodeByPath(target).id;
+}
+
+function sendToSCXML(
+  action: SendAction<any, any>,
+  machine: StateNode
+): XMLElement {
+  const { event, delay, to, id } = action;
+  let delayAttributes: Record<string, string | undefined> = {};
+  let targetAttributes: Record<string, string | undefined> = {};
+
+  if (isFunction(delay)) {
+    delayAttributes = { delayexpr: `${callExpr(delay, machine)} + 'ms'` };
+  } else if (isString(delay)) {
+    const configuredDelay = machine.options.delays[delay];
+
+    // Named delay expressions are called by name, so that the data model can provide them
+    delayAttributes =
+      configuredDelay !== undefined && !isFunction(configuredDelay)
+        ? { delay: `${configuredDelay}ms` }
+        : { delayexpr: `${callExpr(delay, machine)} + 'ms'` };
+  } else if (delay !== undefined) {
+    delayAttributes = { delay: `${delay}ms` };
+  }
+
+  if (isFunction(to)) {
+    targetAttributes = { targetexpr: `'#_' + ${callExpr(to, machine)}` };
+  } else if (to === SpecialTargets.Origin) {
+    targetAttributes = { targetexpr: '_event.origin' };
+  } else if (to === SpecialTargets.Parent || to === SpecialTargets.Internal) {
+    targetAttributes = { target: to };
+  } else if (to !== undefined) {
+    targetAttributes = {
+      target: `#_${isString(to) ? to : (to as ActorRef<any>).id}`
+    };
+  }
+
+  if (isFunction(event)) {
+    // The event returned by the expression is sent as the content of the event
+    const eventExpr = callExpr(event, machine);
+
+    return createElement(
+      'send',
+      {
+        eventexpr: `(function (event) { return event.type || event; })(${eventExpr})`,
+        ...targetAttributes,
+        ...delayAttributes,
+        id: id === undefined || id === '' ? undefined : `${id}`
+      },
+      [createElement('content', { expr: eventExpr })]
+    );
+  }
+
+  const { type, ...data } = toEventObject(event);
+
+  return createElement(
+    'send',
+    {
+      event: type,
+      ...targetAttributes,
+      ...delayAttributes,
+      id: id === undefined ? undefined : `${id}`
     },
-    elements: [
-      !parallel && stateNode.initial
-        ? {
-            type: 'element',
-            name: 'initial',
-            elements: [
+    paramElements(data, machine)
+  );
+}
+
+function assignToSCXML(
+  action: AssignAction<any, any>,
+  machine: StateNode
+): XMLElement[] {
+  const { assignment } = action;
+
+  if (isFunction(assignment)) {
+    // The partial context returned by the assigner is merged into the current context
+    const assignedContextExpr = `Object.assign(${contextExpr(
+      machine
+    )}, ${callExpr(assignment, machine)})`;
+
+    return keys(machine.context || {}).map(key =>
+      createElement('assign', {
+        location: key,
+        expr: `${assignedContextExpr}.${key}`
+      })
+    );
+  }
+
+  return keys(assignment).map(key =>
+    createElement('assign', {
+      location: key,
+      expr: valueExpr(assignment[key], machine)
+    })
+  );
+}
+
+function chooseToSCXML(
+  action: ChooseAction<any, any>,
+  stateNode: StateNode
+): XMLElement | undefined {
+  const { conds } = action;
+  const branchElements: XMLElement[] = [];
+  let ifCond: string | undefined;
+
+  for (let i = 0; i < conds.length; i++) {
+    const { cond, actions: branchActions } = conds[i];
+    const actionElements = actionsToSCXML(
+      toArray(branchActions).map(branchAction => toActionObject(branchAction)),
+      stateNode
+    );
+
+    if (i === 0) {
+      // A first branch without a guard always passes
+      if (!cond) {
+        return createElement('if', { cond: 'true' }, actionElements);
+      }
+      ifCond = guardToExpr(cond, stateNode.machine);
+    } else if (cond) {
+      branchElements.push(
+        createElement('elseif', { cond: guardToExpr(cond, stateNode.machine) })
+      );
+    } else {
+      // Branches after a branch without a guard are never taken
+      branchElements.push(createElement('else'));
+      branchElements.push(...actionElements);
+      break;
+    }
+
+    branchElements.push(...actionElements);
+  }
+
+  return ifCond
+    ? createElement('if', { cond: ifCond }, branchElements)
+    : undefined;
+}
+
+function actionsToSCXML(
+  actionObjects: Array<ActionObject<any, any>>,
+  stateNode: StateNode
+): XMLElement[] {
+  const { machine } = stateNode;
+
+  return flatten(
+    actionObjects.map(
+      (actionObject): XMLElement[] => {
+        // Named actions that are implemented by action objects are exported as those actions
+        const action = toActionObject(actionObject, machine.options.actions);
+
+        switch (action.type) {
+          case actionTypes.raise:
+            return [
+              createElement('raise', {
+                event: getEventType((action as RaiseEvent<any, any>).event)
+              })
+            ];
+          case actionTypes.send:
+            return [sendToSCXML(action as SendAction<any, any>, machine)];
+          case actionTypes.cancel:
+            return [
+              createElement('cancel', {
+                sendid: `${(action as CancelAction).sendId}`
+              })
+            ];
+          case actionTypes.assign:
+            return assignToSCXML(action as AssignAction<any, any>, machine);
+          case actionTypes.log: {
+            const { label, expr } = action;
+
+            return [
+              createElement('log', {
+                label,
+                expr: expr ? valueExpr(expr, machine) : undefined
+              })
+            ];
+          }
+          case actionTypes.choose: {
+            const ifElement = chooseToSCXML(
+              action as ChooseAction<any, any>,
+              stateNode
+            );
+
+            return ifElement ? [ifElement] : [];
+          }
+          case actionTypes.escalate: {
+            const { data } = action as EscalateAction<any, any>;
+
+            return [
+              createElement(
+                'send',
+                {
+                  event: `${actionTypes.errorPlatform}.${machine.id}`,
+                  target: SpecialTargets.Parent
+                },
+                [createElement('content', { expr: valueExpr(data, machine) })]
+              )
+            ];
+          }
+          case actionTypes.start:
+          case actionTypes.stop:
+            // Activities are started and stopped by their <invoke> elements
+            return [];
+          case actionTypes.pure:
+            if (!IS_PRODUCTION) {
+              warn(
+                false,
+                `Pure actions on state node '${
+                  stateNode.id
+                }' cannot be exported to SCXML and are omitted.`
+              );
+            }
+            return [];
+          default: {
+            // Custom actions are executed as scripts that call inline action functions, or
+            // else the function with the action's name, which the data model should provide
+            const implementation =
+              machine.options.actions[action.type] === undefined
+                ? action.exec
+                : undefined;
+
+            return [
               {
-                type: 'element',
-                name: 'transition',
-                attributes: {
-                  target: stateNode.states[stateNode.initial as string].id
-                }
+                ...createElement('script'),
+                elements: [
+                  {
+                    type: 'text',
+                    text: `${callExpr(
+                      isFunction(implementation) ? implementation : action.type,
+                      machine
+                    )};`
+                  }
+                ]
               }
-            ]
+            ];
           }
+        }
+      }
+    )
+  );
+}
+
+function transitionToSCXML(
+  transition: TransitionDefinition<any, any>,
+  stateNode: StateNode
+): XMLElement {
+  const targets = toArray(transition.target);
+  const conds = [
+    transition.in ? inStateToExpr(transition.in, stateNode) : undefined,
+    transition.cond
+      ? guardToExpr(transition.cond, stateNode.machine)
+      : undefined
+  ].filter(Boolean);
+
+  return createElement(
+    'transition',
+    {
+      event: transition.event || undefined,
+      cond:
+        conds.length > 1
+          ? conds.map(cond => `(${cond})`).join(' && ')
+          : conds[0],
+      target: targets.length
+        ? targets.map(target => resolveTargetId(target, stateNode)).join(' ')
         : undefined,
-      stateNode.onEntry && {
-        type: 'element',
-        name: 'onentry',
-        elements: stateNode.onEntry.map(event => {
-          return {
-            type: 'element',
-            name: 'send',
-            attributes: {
-              event: getActionType(event)
-            }
-          };
-        })
-      },
-      stateNode.onExit && {
-        type: 'element',
-        name: 'onexit',
-        elements: stateNode.onExit.map(event => {
-          return {
-            type: 'element',
-            name: 'send',
-            attributes: {
-              event: getActionType(event)
-            }
-          };
-        })
+      type: targets.length && transition.internal ? 'internal' : undefined
+    },
+    actionsToSCXML(
+      toArray(transition.actions).map(action => toActionObject(action)),
+      stateNode
+    )
+  );
+}
+
+function invokeToSCXML(
+  invokeDefinition: InvokeDefinition<any, any>,
+  stateNode: StateNode
+): XMLElement {
+  const { machine } = stateNode;
+  const { id, src, forward, data } = invokeDefinition;
+  const service = machine.options.services[src];
+  const paramsOrContent = data
+    ? isFunction(data)
+      ? [createElement('content', { expr: callExpr(data, machine) })]
+      : paramElements(data, machine)
+    : [];
+
+  if (service instanceof StateNode) {
+    // Invoked machines are inlined as SCXML documents
+    return createElement(
+      'invoke',
+      {
+        id,
+        type: SCXML_INVOKE_TYPE,
+        autoforward: forward ? 'true' : undefined
       },
-      ...keys(stateNode.states).map(stateKey => {
-        const subStateNode = stateNode.states[stateKey];
-
-        return stateNodeToSCXML(subStateNode);
-      }),
-      ...keys(stateNode.on)
-        .map(
-          (event): XMLElement[] => {
-            const transition = stateNode.on![event];
-
-            if (!transition) {
-              return [];
-            }
+      [
+        ...paramsOrContent.filter(element => element.name === 'param'),
+        createElement('content', undefined, [machineToSCXML(service)])
+      ]
+    );
+  }
 
-            return transition.map(targetTransition => {
-              const { target } = targetTransition;
-
-              return {
-                type: 'element',
-                name: 'transition',
-                attributes: {
-                  ...(event ? { event } : undefined),
-                  ...(target
-                    ? {
-                        target: stateNode.parent!.getRelativeStateNodes(
-                          target
-                        )[0]!.id
-                      }
-                    : undefined), // TODO: fixme
-                  ...(targetTransition.cond
-                    ? { cond: targetTransition.cond.toString() }
-                    : undefined)
-                },
-                elements: targetTransition.actions
-                  ? targetTransition.actions.map(action => ({
-                      type: 'element',
-                      name: 'send',
-                      attributes: {
-                        event: getActionType(action)
-                      }
-                    }))
-                  : undefined
-              };
-            });
-          }
+  return createElement(
+    'invoke',
+    {
+      id,
+      src,
+      autoforward: forward ? 'true' : undefined
+    },
+    paramsOrContent
+  );
+}
+
+function historyToSCXML(stateNode: StateNode): XMLElement {
+  const { target } = stateNode;
+
+  return createElement(
+    'history',
+    { id: stateNode.id, type: stateNode.history || 'shallow' },
+    [
+      target
+        ? createElement('transition', {
+            target: toStatePaths(toStateValue(target, stateNode.delimiter))
+              .map(
+                statePath => stateNode.parent!.getStateNodeByPath(statePath).id
+              )
+              .join(' ')
+          })
+        : undefined
+    ]
+  );
+}
+
+function finalToSCXML(stateNode: StateNode): XMLElement {
+  const { data, machine } = stateNode;
+
+  return createElement('final', { id: stateNode.id }, [
+    stateNode.onEntry.length
+      ? createElement(
+          'onentry',
+          undefined,
+          actionsToSCXML(stateNode.onEntry, stateNode)
         )
-        .reduce((a, b) => a.concat(b))
-    ].filter(Boolean) as XMLElement[]
-  };
+      : undefined,
+    stateNode.onExit.length
+      ? createElement(
+          'onexit',
+          undefined,
+          actionsToSCXML(stateNode.onExit, stateNode)
+        )
+      : undefined,
+    data
+      ? createElement(
+          'donedata',
+          undefined,
+          isFunction(data)
+            ? [createElement('content', { expr: callExpr(data, machine) })]
+            : paramElements(data, machine)
+        )
+      : undefined
+  ]);
+}
+
+function stateNodeToSCXML(stateNode: StateNode): XMLElement {
+  switch (stateNode.type) {
+    case 'history':
+      return historyToSCXML(stateNode);
+    case 'final':
+      return finalToSCXML(stateNode);
+    default:
+      break;
+  }
+
+  const parallel = stateNode.type === 'parallel';
+  const { on } = stateNode;
+
+  return createElement(
+    parallel ? 'parallel' : 'state',
+    {
+      id: stateNode.id,
+      initial:
+        !parallel && stateNode.initial
+          ? stateNode.states[stateNode.initial as string].id
+          : undefined
+    },
+    [
+      stateNode.onEntry.length
+        ? createElement(
+            'onentry',
+            undefined,
+            actionsToSCXML(stateNode.onEntry, stateNode)
+          )
+        : undefined,
+      stateNode.onExit.length
+        ? createElement(
+            'onexit',
+            undefined,
+            actionsToSCXML(stateNode.onExit, stateNode)
+          )
+        : undefined,
+      ...flatten(
+        keys(on).map(event =>
+          (on[event] || []).map(transition =>
+            transitionToSCXML(transition, stateNode)
+          )
+        )
+      ),
+      ...stateNode.invoke.map(invokeDefinition =>
+        invokeToSCXML(invokeDefinition, stateNode)
+      ),
+      ...keys(stateNode.states).map(key =>
+        stateNodeToSCXML(stateNode.states[key])
+      )
+    ]
+  );
+}
+
+function machineToSCXML(machine: StateNode): XMLElement {
+  const { context } = machine;
 
-  return scxmlElement;
+  // The machine is represented as the top-level state node, so that transitions,
+  // actions and invocations on the machine itself are preserved.
+  return createElement(
+    'scxml',
+    {
+      xmlns: SCXML_NAMESPACE,
+      version: '1.0',
+      datamodel: 'ecmascript',
+      name: machine.id,
+      initial: machine.id
+    },
+    [
+      context
+        ? createElement(
+            'datamodel',
+            undefined,
+            keys(context).map(key =>
+              createElement('data', {
+                id: key,
+                expr: valueExpr(context[key], machine)
+              })
+            )
+          )
+        : undefined,
+      stateNodeToSCXML(machine)
+    ]
+  );
 }
 
+/**
+ * Exports the machine to an SCXML document, using the ECMAScript data model.
+ *
+ * The machine's context is exported as the `<datamodel>`, where each property of the
+ * initial context is a data model variable. Inline functions (such as inline guards,
+ * assigners and actions) are exported as ECMAScript expressions that call the function
+ * with the context and event. Named guards, actions and delays are exported as calls to
+ * functions with the same name, which the data model should provide.
+ *
+ * @param machine The machine to export
+ */
 export function fromMachine(machine: StateNode): string {
   const scxmlDocument: XMLElement = {
     declaration: { attributes: { version: '1.0', encoding: 'utf-8' } },
-    elements: [
-      { type: 'instruction', name: 'access-control', instruction: 'allow="*"' },
-      {
-        type: 'element',
-        name: 'scxml',
-        attributes: {
-          version: '1.0',
-          initial: machine.id
-        }
-      },
-      stateNodeToSCXML(machine)
-    ]
+    elements: [machineToSCXML(machine)]
   };
 
   return js2xml(scxmlDocument, { spaces: 2 });
@@ -174,65 +711,986 @@ function indexedAggregateRecord<T extends {}>(
   return record;
 }
 
-function executableContent(elements: XMLElement[]) {
+interface ElementLocation {
+  line: number;
+  source: string;
+}
+
+/**
+ * The locations of the parsed SCXML elements in their source, for error messages.
+ */
+const elementLocations = new WeakMap<XMLElement, ElementLocation>();
+
+/**
+ * Matches comments, CDATA sections, processing instructions and doctypes (which may
+ * contain "<" characters), and element start tags, in document order.
+ */
+const START_TAG_REGEX = /<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<([A-Za-z_][\w:.-]*)/g;
+
+/**
+ * Parses the SCXML source, recording the location of each element in the source.
+ */
+function parseSCXML(xml: string): XMLElement {
+  const json = xml2js(xml) as XMLElement;
+  const sourceLines = xml.split(/\r?\n/);
+  const startTagLines: number[] = [];
+  let line = 1;
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  START_TAG_REGEX.lastIndex = 0;
+
+  // tslint:disable-next-line:no-conditional-assignment
+  while ((match = START_TAG_REGEX.exec(xml))) {
+    line += (xml.slice(lastIndex, match.index).match(/\n/g) || []).length;
+    lastIndex = match.index;
+
+    if (match[1]) {
+      startTagLines.push(line);
+    }
+  }
+
+  // Elements are visited in the same (document) order as their start tags
+  let elementIndex = 0;
+  const visit = (parentElement: XMLElement) => {
+    (parentElement.elements || []).forEach(element => {
+      if (element.type !== 'element') {
+        return;
+      }
+
+      const elementLine = startTagLines[elementIndex++];
+
+      if (elementLine !== undefined) {
+        elementLocations.set(element, {
+          line: elementLine,
+          source: sourceLines[elementLine - 1].trim()
+        });
+      }
+
+      visit(element);
+    });
+  };
+
+  visit(json);
+
+  return json;
+}
+
+function createSCXMLError(element: XMLElement, message: string): Error {
+  const location = elementLocations.get(element);
+
+  return new Error(
+    location
+      ? `${message} (line ${location.line}: ${location.source})`
+      : message
+  );
+}
+
+function getRequiredAttribute(element: XMLElement, attribute: string): string {
+  const value = getAttribute(element, attribute);
+
+  if (value === undefined) {
+    throw createSCXMLError(
+      element,
+      `The <${element.name}> element requires the "${attribute}" attribute.`
+    );
+  }
+
+  return `${value}`;
+}
+
+function ensureSupportedAttributes(
+  element: XMLElement,
+  supportedAttributes: string[]
+): void {
+  for (const attribute of keys(element.attributes || {})) {
+    if (supportedAttributes.indexOf(attribute) === -1) {
+      throw createSCXMLError(
+        element,
+        `The "${attribute}" attribute of the <${
+          element.name
+        }> element is not supported.`
+      );
+    }
+  }
+}
+
+/**
+ * Returns the SCXML `_event` for the event. Its `data` is the event's `data` property
+ * (e.g., for done and error events) if it exists, or else the other properties of the event.
+ */
+function toSCXMLEvent(event: EventObject): { name: string; data: any } {
+  const { type, ...data } = event;
+
+  return { name: type, data: 'data' in data ? data.data : data };
+}
+
+/**
+ * A sandbox that the ECMAScript expressions and scripts of SCXML documents are run in.
+ */
+export interface ScxmlSandbox {
+  /**
+   * Runs the ECMAScript code with the properties of the scope as global variables, and
+   * returns the completion value of the code. Assignments to the global variables are
+   * written back to the scope.
+   */
+  run(code: string, scope: Record<string, any>): any;
+}
+
+export interface VMSandboxOptions {
+  /**
+   * Additional global variables that are available to expressions and scripts.
+   */
+  globals?: Record<string, any>;
+  /**
+   * The maximum time (in milliseconds) that each expression or script can run for.
+   * Defaults to 1000 milliseconds.
+   */
+  timeout?: number;
+}
+
+/**
+ * The global variable that holds the code of a run in the context of a VM sandbox.
+ */
+const VM_SANDBOX_CODE_KEY = '__scxmlCode__';
+
+/**
+ * Creates a sandbox that runs ECMAScript code in a separate V8 context with the Node `vm`
+ * module, so that expressions and scripts do not have access to the globals of the host.
+ * The context is created once and reused for each run, with the properties of the scope
+ * defined as global variables for the duration of the run. The global variables that the
+ * code declares are removed after each run, so that they do not leak into other runs.
+ *
+ * The `vm` module is not a security mechanism, so untrusted SCXML documents should not
+ * be imported.
+ *
+ * @param options The globals available to the code and the timeout of each run
+ */
+export function createVMSandbox(options: VMSandboxOptions = {}): ScxmlSandbox {
+  // tslint:disable-next-line:no-var-requires
+  const { createContext, runInContext } = require('vm') as typeof vm;
+  const { globals = {}, timeout = 1000 } = options;
+  const globalKeys = keys(globals);
+  const context = createContext({ ...globals });
+  // Deletes the global variables of the context that are not sandbox globals
+  const cleanup = `Object.keys(this).forEach(function(key) {
+    if (${JSON.stringify(globalKeys)}.indexOf(key) === -1) {
+      delete this[key];
+    }
+  }, this);`;
+
+  return {
+    run: (code, scope) => {
+      const scopeKeys = keys(scope);
+
+      for (const key of scopeKeys) {
+        context[key] = scope[key];
+      }
+
+      context[VM_SANDBOX_CODE_KEY] = code;
+
+      try {
+        // The code is evaluated with eval(), since the global variables that it declares
+        // can then be deleted (unlike the variables declared by the script of the run)
+        return runInContext(`eval(${VM_SANDBOX_CODE_KEY})`, context, {
+          timeout
+        });
+      } finally {
+        for (const key of scopeKeys) {
+          scope[key] = context[key];
+        }
+
+        runInContext(cleanup, context);
+
+        for (const key of globalKeys) {
+          context[key] = globals[key];
+        }
+      }
+    }
+  };
+}
+
+let sessionCount = 0;
+
+/**
+ * The ECMAScript data model of an SCXML document. The data model variables are the
+ * properties of the machine's context, and expressions can also reference the system
+ * variables `_event`, `_sessionid` and `_name` and the `In()` predicate.
+ */
+class ECMAScriptDataModel {
+  /**
+   * The imported machine, which state node IDs passed to `In()` are resolved against.
+   */
+  public machine?: StateNode;
+  private sandbox: ScxmlSandbox;
+  private name?: string;
+  private sessionId = `scxml.session.${sessionCount++}`;
+
+  constructor(sandbox: ScxmlSandbox, name?: string) {
+    this.sandbox = sandbox;
+    this.name = name;
+  }
+
+  /**
+   * Evaluates the expression. The `In()` predicate is only available if the current
+   * state is given, which is the case for conditions.
+   */
+  public evaluate(
+    expr: string,
+    context: any,
+    event?: EventObject,
+    state?: State<any, any>
+  ): any {
+    return this.sandbox.run(
+      `(${expr}\n)`,
+      this.createScope(context, event, state)
+    );
+  }
+
+  /**
+   * Executes the script and returns the context with the updated data model variables.
+   */
+  public execute(script: string, context: any, event: EventObject): any {
+    const scope = this.createScope(context, event);
+
+    this.sandbox.run(script, scope);
+
+    return keys(context || {}).reduce(
+      (updatedContext, key) => {
+        updatedContext[key] = scope[key];
+        return updatedContext;
+      },
+      {} as Record<string, any>
+    );
+  }
+
+  /**
+   * Returns the guard for the condition, which is `false` if evaluating it throws.
+   */
+  public toCond(expr: string): Condition<any, EventObject> {
+    return (context, event, { state }) => {
+      try {
+        return !!this.evaluate(expr, context, event, state);
+      } catch (err) {
+        return false;
+      }
+    };
+  }
+
+  private createScope(
+    context: any,
+    event?: EventObject,
+    state?: State<any, any>
+  ): Record<string, any> {
+    return {
+      ...context,
+      _event: event ? toSCXMLEvent(event) : undefined,
+      _sessionid: this.sessionId,
+      _name: this.name,
+      In: (id: string) => {
+        if (!state || !this.machine) {
+          throw new Error(
+            `The In() predicate can only be used in conditions (In('${id}')).`
+          );
+        }
+
+        const stateNode = this.machine.getStateNodeById(id);
+
+        return (
+          stateNode === this.machine ||
+          state.matches(pathToStateValue(stateNode.path))
+        );
+      }
+    };
+  }
+}
+
+function getTextContent(element: XMLElement): string {
+  return (element.elements || [])
+    .map(child =>
+      child.type === 'text'
+        ? child.text
+        : child.type === 'cdata'
+        ? child.cdata
+        : ''
+    )
+    .join('');
+}
+
+function executableContent(
+  elements: XMLElement[],
+  options: ScxmlImportOptions,
+  extState?: {}
+) {
   const transition: any = {
-    actions: mapActions(elements)
+    actions: mapActions(elements, options, extState)
   };
 
   return transition;
 }
 
+function mapChooseActions<TContext extends object, TEvent extends EventObject>(
+  ifElement: XMLElement,
+  options: ScxmlImportOptions,
+  extState: {} | undefined,
+  block: ExecutableContentBlock
+): ChooseAction<TContext, TEvent> {
+  const branches: Array<{ cond?: string; elements: XMLElement[] }> = [
+    { cond: getRequiredAttribute(ifElement, 'cond'), elements: [] }
+  ];
+
+  for (const element of ifElement.elements || []) {
+    if (element.name === 'elseif') {
+      branches.push({
+        cond: getRequiredAttribute(element, 'cond'),
+        elements: []
+      });
+    } else if (element.name === 'else') {
+      branches.push({ elements: [] });
+    } else {
+      branches[branches.length - 1].elements.push(element);
+    }
+  }
+
+  return actions.choose<TContext, TEvent>(
+    branches.map(branch => ({
+      cond: branch.cond ? toCond(branch.cond, options, extState) : undefined,
+      actions: mapActions<TContext, TEvent>(
+        branch.elements,
+        options,
+        extState,
+        block
+      )
+    }))
+  );
+}
+
+/**
+ * Returns an action that raises an `error.execution` event with the given error as its
+ * data, which is how errors that occur while executing content are reported in SCXML.
+ */
+function raiseExecutionError<TContext, TEvent extends EventObject>(
+  data: any
+): RaiseEvent<TContext, TEvent> {
+  const errorEvent: EventObject = { type: actionTypes.errorExecution, data };
+
+  return actions.raise<TContext, TEvent>(errorEvent as TEvent);
+}
+
+/**
+ * The execution of a block of executable content, such as the children of an `<onentry>`
+ * element, which stops once an element of the block raises `error.execution`.
+ */
+interface ExecutableContentBlock {
+  aborted: boolean;
+}
+
+/**
+ * Returns a `pure` action that returns the actions created from the values of data model
+ * expressions, or raises an `error.execution` event (and aborts the block) if evaluating
+ * the expressions throws.
+ */
+function evaluateActions<TContext, TEvent extends EventObject>(
+  block: ExecutableContentBlock,
+  getActions: (
+    context: TContext,
+    event: TEvent
+  ) => SingleOrArray<ActionObject<TContext, TEvent>>
+): PureAction<TContext, TEvent> {
+  return actions.pure<TContext, TEvent>((context, event) => {
+    try {
+      return getActions(context, event);
+    } catch (err) {
+      block.aborted = true;
+      return raiseExecutionError<TContext, TEvent>(err);
+    }
+  });
+}
+
+/**
+ * Throws if the `item` or `index` attribute of a `<foreach>` element is not a legal
+ * variable name.
+ */
+function ensureValidLocation(location: string, attribute: string): void {
+  if (!/^[A-Za-z_$][\w$]*$/.test(location)) {
+    throw new Error(
+      `The "${attribute}" attribute of the <foreach> element must be a variable name.`
+    );
+  }
+}
+
+function mapForEachActions<TContext extends object, TEvent extends EventObject>(
+  foreachElement: XMLElement,
+  options: ScxmlImportOptions,
+  extState: {} | undefined,
+  block: ExecutableContentBlock
+): PureAction<TContext, TEvent> {
+  const arrayExpr = getRequiredAttribute(foreachElement, 'array');
+  const item = getRequiredAttribute(foreachElement, 'item');
+  const index = getAttribute(foreachElement, 'index');
+  const iterationActions = mapActions<TContext, TEvent>(
+    foreachElement.elements || [],
+    options,
+    extState,
+    block
+  );
+
+  // Each iteration assigns the item (and index) to the data model before executing the actions
+  return evaluateActions<TContext, TEvent>(block, (context, event) => {
+    const array = options.dataModel.evaluate(arrayExpr, context, event);
+
+    if (!isArray(array)) {
+      throw new Error(
+        `The "array" expression of the <foreach> element must evaluate to an array.`
+      );
+    }
+
+    ensureValidLocation(item, 'item');
+
+    if (index !== undefined) {
+      ensureValidLocation(`${index}`, 'index');
+    }
+
+    return flatten(
+      array.map((value, i) => [
+        actions.assign<TContext, TEvent>({
+          [item]: () => value,
+          ...(index !== undefined ? { [index]: () => i } : undefined)
+        } as PropertyAssigner<TContext, TEvent>),
+        ...iterationActions
+      ])
+    );
+  });
+}
+
+/**
+ * Returns the actions of a block of executable content. Nested blocks (such as the children
+ * of `<if>` elements) are part of the `block` that they are nested in.
+ */
 function mapActions<
   TContext extends object,
   TEvent extends EventObject = EventObject
->(elements: XMLElement[]): Array<ActionObject<TContext, TEvent>> {
-  return elements.map(element => {
-    switch (element.name) {
-      case 'raise':
-        return actions.raise(element.attributes!.event! as string);
-      case 'assign':
-        return actions.assign(xs => {
-          const literalKeyExprs = xs
-            ? keys(xs)
-                .map(key => `const ${key} = xs['${key}'];`)
-                .join('\n')
-            : '';
-          const fnStr = `
-          const xs = arguments[0];
-          ${literalKeyExprs};
-            return {'${element.attributes!.location}': ${
-            element.attributes!.expr
-          }};
-          `;
-
-          const fn = new Function(fnStr);
-          return fn(xs);
-        });
-      case 'send':
-        const delay = element.attributes!.delay!;
-        const numberDelay = delay
-          ? typeof delay === 'number'
-            ? delay
-            : /(\d+)ms/.test(delay)
-            ? +/(\d+)ms/.exec(delay)![1]
-            : 0
-          : 0;
-        return actions.send(element.attributes!.event! as string, {
-          delay: numberDelay
-        });
-      default:
-        return { type: 'not-implemented' };
+>(
+  elements: XMLElement[],
+  options: ScxmlImportOptions,
+  extState?: {},
+  block?: ExecutableContentBlock
+): Array<ActionObject<TContext, TEvent>> {
+  const currentBlock: ExecutableContentBlock = block || { aborted: false };
+  const blockActions = elements
+    .filter(element => element.type === 'element')
+    .map(
+      (element): ActionObject<TContext, TEvent> => {
+        switch (element.name) {
+          case 'raise':
+            return actions.raise(getRequiredAttribute(element, 'event'));
+          case 'assign': {
+            const location = getRequiredAttribute(element, 'location');
+            const expr = getRequiredAttribute(element, 'expr');
+
+            return evaluateActions<TContext, TEvent>(
+              currentBlock,
+              (context, event) => {
+                const value = options.dataModel.evaluate(expr, context, event);
+
+                return actions.assign<TContext, TEvent>({
+                  [location]: () => value
+                } as PropertyAssigner<TContext, TEvent>);
+              }
+            );
+          }
+          case 'send':
+            return mapSend<TContext, TEvent>(element, options, currentBlock);
+          case 'if':
+            return mapChooseActions<TContext, TEvent>(
+              element,
+              options,
+              extState,
+              currentBlock
+            );
+          case 'foreach':
+            return mapForEachActions<TContext, TEvent>(
+              element,
+              options,
+              extState,
+              currentBlock
+            );
+          case 'log': {
+            ensureSupportedAttributes(element, ['label', 'expr']);
+            const expr = getAttribute(element, 'expr');
+            const label = getAttribute(element, 'label') as string | undefined;
+
+            return evaluateActions<TContext, TEvent>(
+              currentBlock,
+              (context, event) => {
+                const value =
+                  expr === undefined
+                    ? undefined
+                    : options.dataModel.evaluate(`${expr}`, context, event);
+
+                return actions.log<TContext, TEvent>(() => value, label);
+              }
+            );
+          }
+          case 'cancel':
+            ensureSupportedAttributes(element, ['sendid']);
+            return actions.cancel(getRequiredAttribute(element, 'sendid'));
+          case 'script': {
+            ensureSupportedAttributes(element, []);
+            const script = getTextContent(element);
+
+            return evaluateActions<TContext, TEvent>(
+              currentBlock,
+              (context, event) => {
+                const updatedContext = options.dataModel.execute(
+                  script,
+                  context,
+                  event
+                );
+
+                return actions.assign<TContext, TEvent>(() => updatedContext);
+              }
+            );
+          }
+          default:
+            throw createSCXMLError(
+              element,
+              `The <${
+                element.name
+              }> element is not supported executable content.`
+            );
+        }
+      }
+    )
+    // The remaining elements of a block are not executed once the block is aborted
+    .map(action =>
+      actions.pure<TContext, TEvent>(() =>
+        currentBlock.aborted ? undefined : action
+      )
+    );
+
+  if (block) {
+    return blockActions;
+  }
+
+  return [
+    actions.pure<TContext, TEvent>(() => {
+      currentBlock.aborted = false;
+      return blockActions;
+    })
+  ];
+}
+
+/**
+ * Returns the target of a `<send>` element: the parent service for `#_parent`, or the
+ * invoked service with the ID `id` for `#_id`.
+ */
+function toSendTarget(target?: string | number): string | undefined {
+  if (target === '#_parent') {
+    return SpecialTargets.Parent;
+  }
+
+  return isString(target) && /^#_(?!internal$|scxml_)/.test(target)
+    ? target.slice(2)
+    : undefined;
+}
+
+/**
+ * Returns the event with the given name and SCXML event data, which is the inverse of
+ * `toSCXMLEvent`: the properties of object data are the properties of the event.
+ */
+function fromSCXMLEvent(name: string, data: any): EventObject {
+  if (data === undefined) {
+    return { type: name };
+  }
+
+  return typeof data === 'object' &&
+    data !== null &&
+    !isArray(data) &&
+    !('data' in data)
+    ? { ...data, type: name }
+    : { type: name, data };
+}
+
+/**
+ * Returns the delay in milliseconds of a CSS2 time value, such as "500ms" or "1.5s".
+ */
+function parseDelay(delay: string, element: XMLElement): number {
+  const match = /^\s*(\d*\.?\d+)(ms|s)\s*$/.exec(delay);
+
+  if (!match) {
+    throw createSCXMLError(
+      element,
+      `The delay "${delay}" of the <${
+        element.name
+      }> element is not a valid time value (e.g., "500ms" or "1.5s").`
+    );
+  }
+
+  return parseFloat(match[1]) * (match[2] === 's' ? 1000 : 1);
+}
+
+/**
+ * Returns the value of a `<content>` element, which is parsed as JSON if possible.
+ */
+function getContentValue(element: XMLElement): any {
+  const text = getTextContent(element).trim();
+
+  try {
+    return JSON.parse(text);
+  } catch (e) {
+    return text;
+  }
+}
+
+/**
+ * Returns a mapper that evaluates the `<param>` children and the `namelist` attribute
+ * of the element to an object of named values, or `undefined` if there are none.
+ */
+function mapParams(
+  element: XMLElement,
+  options: ScxmlImportOptions
+): Mapper<any, EventObject> | undefined {
+  const namelist = getAttribute(element, 'namelist');
+  const params = (element.elements || [])
+    .filter(child => child.name === 'param')
+    .map(paramElement => {
+      ensureSupportedAttributes(paramElement, ['name', 'expr', 'location']);
+      const expr = getAttribute(paramElement, 'expr');
+
+      return {
+        name: getRequiredAttribute(paramElement, 'name'),
+        expr:
+          expr === undefined
+            ? getRequiredAttribute(paramElement, 'location')
+            : `${expr}`
+      };
+    })
+    .concat(
+      namelist === undefined
+        ? []
+        : `${namelist}`
+            .trim()
+            .split(/\s+/)
+            .map(name => ({ name, expr: name }))
+    );
+
+  if (!params.length) {
+    return undefined;
+  }
+
+  return (context, event) =>
+    params.reduce(
+      (data, param) => {
+        data[param.name] = options.dataModel.evaluate(
+          param.expr,
+          context,
+          event
+        );
+        return data;
+      },
+      {} as Record<string, any>
+    );
+}
+
+/**
+ * Returns the mapper for the data of the "done" event of a final state, from its
+ * `<donedata>` element.
+ */
+function mapDoneData(
+  donedataElement: XMLElement,
+  options: ScxmlImportOptions
+): Mapper<any, EventObject> | undefined {
+  const contentElement = (donedataElement.elements || []).find(
+    element => element.name === 'content'
+  );
+
+  return contentElement
+    ? mapContent(contentElement, options)
+    : mapParams(donedataElement, options);
+}
+
+/**
+ * Returns the mapper for the value of a `<content>` element: its `expr` attribute, which is
+ * evaluated by the data model, or else its (JSON) text.
+ */
+function mapContent(
+  contentElement: XMLElement,
+  options: ScxmlImportOptions
+): Mapper<any, EventObject> {
+  ensureSupportedAttributes(contentElement, ['expr']);
+  const expr = getAttribute(contentElement, 'expr');
+
+  if (expr === undefined) {
+    const value = getContentValue(contentElement);
+
+    return () => value;
+  }
+
+  return (context, event) =>
+    options.dataModel.evaluate(`${expr}`, context, event);
+}
+
+/**
+ * Throws if the (evaluated) `type` of a `<send>` element is not an SCXML event processor.
+ */
+function ensureSupportedSendType(type: any, sendElement: XMLElement): void {
+  if (type !== undefined && SCXML_SEND_TYPES.indexOf(`${type}`) === -1) {
+    throw createSCXMLError(
+      sendElement,
+      `The send type "${type}" is not supported.`
+    );
+  }
+}
+
+/**
+ * Returns the send action of a `<send>` element, which raises `error.execution` instead if
+ * its expressions cannot be evaluated. The event data is the object of the `<param>`
+ * children and the `namelist` attribute, or else the value of the `<content>` child.
+ */
+function mapSend<TContext extends object, TEvent extends EventObject>(
+  sendElement: XMLElement,
+  options: ScxmlImportOptions,
+  block: ExecutableContentBlock
+): ActionObject<TContext, TEvent> {
+  ensureSupportedAttributes(sendElement, [
+    'event',
+    'eventexpr',
+    'target',
+    'targetexpr',
+    'type',
+    'typeexpr',
+    'id',
+    'delay',
+    'delayexpr',
+    'namelist'
+  ]);
+
+  ensureSupportedSendType(getAttribute(sendElement, 'type'), sendElement);
+
+  const { dataModel } = options;
+  const typeExpr = getAttribute(sendElement, 'typeexpr');
+  const eventName = getAttribute(sendElement, 'event');
+  const eventExpr = getAttribute(sendElement, 'eventexpr');
+  const target = getAttribute(sendElement, 'target');
+  const targetExpr = getAttribute(sendElement, 'targetexpr');
+  const delay = getAttribute(sendElement, 'delay');
+  const delayExpr = getAttribute(sendElement, 'delayexpr');
+
+  if (eventName === undefined && eventExpr === undefined) {
+    throw createSCXMLError(
+      sendElement,
+      `The <send> element requires the "event" or "eventexpr" attribute.`
+    );
+  }
+
+  let contentElement: XMLElement | undefined;
+
+  for (const element of sendElement.elements || []) {
+    if (element.name === 'content') {
+      contentElement = element;
+    } else if (element.type === 'element' && element.name !== 'param') {
+      throw createSCXMLError(
+        element,
+        `The <${element.name}> element is not supported in <send> elements.`
+      );
+    }
+  }
+
+  const params = mapParams(sendElement, options);
+
+  if (contentElement && params) {
+    throw createSCXMLError(
+      sendElement,
+      `The <send> element cannot have both a <content> element and params.`
+    );
+  }
+
+  const data = contentElement ? mapContent(contentElement, options) : params;
+  const id = getAttribute(sendElement, 'id') as string | undefined;
+  const sendTarget = toSendTarget(target);
+  const sendDelay =
+    delay === undefined ? undefined : parseDelay(`${delay}`, sendElement);
+
+  if (
+    eventExpr === undefined &&
+    typeExpr === undefined &&
+    targetExpr === undefined &&
+    delayExpr === undefined &&
+    !data
+  ) {
+    return actions.send<TContext, TEvent>(`${eventName}`, {
+      id,
+      to: sendTarget,
+      delay: sendDelay
+    });
+  }
+
+  // The expressions are evaluated when the <send> element is executed, and the event
+  // is not sent if evaluating them throws
+  return evaluateActions<TContext, TEvent>(block, (context, event) => {
+    if (typeExpr !== undefined) {
+      ensureSupportedSendType(
+        dataModel.evaluate(`${typeExpr}`, context, event),
+        sendElement
+      );
     }
+
+    const sendEvent = fromSCXMLEvent(
+      eventExpr === undefined
+        ? `${eventName}`
+        : `${dataModel.evaluate(`${eventExpr}`, context, event)}`,
+      data ? data(context, event) : undefined
+    ) as TEvent;
+
+    return actions.send<TContext, TEvent>(sendEvent, {
+      id,
+      to:
+        targetExpr === undefined
+          ? sendTarget
+          : toSendTarget(dataModel.evaluate(`${targetExpr}`, context, event)),
+      delay:
+        delayExpr === undefined
+          ? sendDelay
+          : parseDelay(
+              `${dataModel.evaluate(`${delayExpr}`, context, event)}`,
+              sendElement
+            )
+    });
+  });
+}
+
+/**
+ * Creates a resolver that loads the SCXML documents referenced by the `src` attribute
+ * of `<invoke>` elements from the local filesystem.
+ *
+ * @param baseDir The directory that relative paths (and `file:` URLs) are resolved against
+ */
+export function createFileResolver(
+  baseDir: string = process.cwd()
+): (src: string) => string {
+  // tslint:disable:no-var-requires
+  const { readFileSync } = require('fs') as typeof fs;
+  const { resolve } = require('path') as typeof path;
+  // tslint:enable:no-var-requires
+
+  return src =>
+    readFileSync(resolve(baseDir, src.replace(/^file:/, '')), 'utf8');
+}
+
+function mapInvoke(
+  invokeElement: XMLElement,
+  options: ScxmlImportOptions
+): InvokeConfig<any, EventObject> {
+  ensureSupportedAttributes(invokeElement, [
+    'id',
+    'type',
+    'src',
+    'autoforward',
+    'namelist'
+  ]);
+
+  const type = getAttribute(invokeElement, 'type');
+
+  if (type !== undefined && SCXML_INVOKE_TYPES.indexOf(`${type}`) === -1) {
+    throw createSCXMLError(
+      invokeElement,
+      `The invoke type "${type}" is not supported.`
+    );
+  }
+
+  let contentElement: XMLElement | undefined;
+
+  for (const element of invokeElement.elements || []) {
+    if (element.name === 'content') {
+      contentElement = element;
+    } else if (element.type === 'element' && element.name !== 'param') {
+      throw createSCXMLError(
+        element,
+        `The <${element.name}> element is not supported in <invoke> elements.`
+      );
+    }
+  }
+
+  const src = getAttribute(invokeElement, 'src');
+  let machineElement: XMLElement | undefined;
+
+  if (src !== undefined) {
+    const resolveSrc = options.resolveSrc || createFileResolver();
+
+    machineElement = getMachineElement(parseSCXML(resolveSrc(`${src}`)));
+  } else if (contentElement) {
+    ensureSupportedAttributes(contentElement, []);
+    machineElement = getMachineElement(contentElement);
+  } else {
+    throw createSCXMLError(
+      invokeElement,
+      `The <invoke> element requires the "src" attribute or a <content> element.`
+    );
+  }
+
+  if (!machineElement) {
+    throw createSCXMLError(
+      contentElement || invokeElement,
+      `The invoked content must be an <scxml> document.`
+    );
+  }
+
+  const machine = scxmlToMachine(machineElement, options);
+  const params = mapParams(invokeElement, options);
+
+  return {
+    id: getAttribute(invokeElement, 'id') as string | undefined,
+    src: machine,
+    forward: getAttribute(invokeElement, 'autoforward') === 'true',
+    // Params override the initial values of the invoked machine's data model
+    data: params
+      ? (context, event) => ({ ...machine.context, ...params(context, event) })
+      : undefined
+  };
+}
+
+/**
+ * Returns the key of the state with the given ID: the ID relative to the ID of its parent
+ * state if it is prefixed by it (as the state IDs exported by `fromMachine` are), since
+ * state keys cannot contain the delimiter, or else the ID itself.
+ */
+function toStateKey(
+  stateId: string,
+  parentId: string,
+  options: ScxmlImportOptions
+): string {
+  const prefix = `${parentId}${options.delimiter || STATE_DELIMITER}`;
+
+  return stateId.length > prefix.length && stateId.indexOf(prefix) === 0
+    ? stateId.slice(prefix.length)
+    : stateId;
+}
+
+function mapEntryExitActions(
+  nodeJson: XMLElement,
+  options: ScxmlImportOptions,
+  extState?: {}
+) {
+  const [onEntry, onExit] = ['onentry', 'onexit'].map(name => {
+    const element = (nodeJson.elements || []).find(
+      child => child.name === name
+    );
+
+    return element
+      ? mapActions(element.elements || [], options, extState)
+      : undefined;
   });
+
+  return { onEntry, onExit };
 }
 
 function toConfig(
   nodeJson: XMLElement,
   id: string,
-  options: ScxmlToMachineOptions,
+  options: ScxmlImportOptions,
   extState?: {}
 ) {
-  const { evalCond } = options;
   const parallel = nodeJson.name === 'parallel';
   let initial = parallel ? undefined : nodeJson.attributes!.initial;
   let states: Record<string, any>;
@@ -262,9 +1720,24 @@ function toConfig(
       };
     }
     case 'final': {
+      const donedataElement = (elements || []).find(
+        element => element.name === 'donedata'
+      );
+      const data = donedataElement
+        ? mapDoneData(donedataElement, options)
+        : undefined;
+      const { onEntry, onExit } = mapEntryExitActions(
+        nodeJson,
+        options,
+        extState
+      );
+
       return {
         ...nodeJson.attributes,
-        type: 'final'
+        type: 'final',
+        ...(onEntry ? { onEntry } : undefined),
+        ...(onExit ? { onExit } : undefined),
+        ...(data ? { data } : undefined)
       };
     }
     default:
@@ -284,12 +1757,8 @@ function toConfig(
       element => element.name === 'transition'
     );
 
-    const onEntryElement = nodeJson.elements.find(
-      element => element.name === 'onentry'
-    );
-
-    const onExitElement = nodeJson.elements.find(
-      element => element.name === 'onexit'
+    const invokeElements = nodeJson.elements.filter(
+      element => element.name === 'invoke'
     );
 
     const initialElement = !initial
@@ -302,7 +1771,9 @@ function toConfig(
       )!.attributes!.target;
     }
 
-    states = indexedRecord(stateElements, item => `${item.attributes!.id}`);
+    states = indexedRecord(stateElements, item =>
+      toStateKey(`${item.attributes!.id}`, id, options)
+    );
 
     on = mapValues(
       indexedAggregateRecord(
@@ -315,10 +1786,19 @@ function toConfig(
 
           return {
             target: target ? `#${target}` : undefined,
-            ...(value.elements ? executableContent(value.elements) : undefined),
+            ...(getAttribute(value, 'type') === 'internal'
+              ? { internal: true }
+              : undefined),
+            ...(value.elements
+              ? executableContent(value.elements, options, extState)
+              : undefined),
             ...(value.attributes && value.attributes.cond
               ? {
-                  cond: evalCond(value.attributes.cond as string, extState)
+                  cond: toCond(
+                    value.attributes.cond as string,
+                    options,
+                    extState
+                  )
                 }
               : undefined)
           };
@@ -326,28 +1806,35 @@ function toConfig(
       }
     );
 
-    const onEntry = onEntryElement
-      ? mapActions(onEntryElement.elements!)
-      : undefined;
-
-    const onExit = onExitElement
-      ? mapActions(onExitElement.elements!)
-      : undefined;
+    const { onEntry, onExit } = mapEntryExitActions(
+      nodeJson,
+      options,
+      extState
+    );
 
     return {
       id,
-      ...(initial ? { initial } : undefined),
+      ...(initial
+        ? { initial: toStateKey(`${initial}`, id, options) }
+        : undefined),
       ...(parallel ? { type: 'parallel' } : undefined),
       ...(stateElements.length
         ? {
-            states: mapValues(states, (state, key) =>
-              toConfig(state, key, options, extState)
+            states: mapValues(states, state =>
+              toConfig(state, `${state.attributes!.id}`, options, extState)
             )
           }
         : undefined),
       ...(transitionElements.length ? { on } : undefined),
       ...(onEntry ? { onEntry } : undefined),
-      ...(onExit ? { onExit } : undefined)
+      ...(onExit ? { onExit } : undefined),
+      ...(invokeElements.length
+        ? {
+            invoke: invokeElements.map(invokeElement =>
+              mapInvoke(invokeElement, options)
+            )
+          }
+        : undefined)
     };
   }
 
@@ -355,41 +1842,135 @@ function toConfig(
 }
 
 export interface ScxmlToMachineOptions {
-  evalCond: (
+  /**
+   * Creates the guard for the `cond` expression of a `<transition>`, `<if>` or `<elseif>`
+   * element. By default, the expression is evaluated by the ECMAScript data model.
+   */
+  evalCond?: (
     expr: string,
     extState?: object
   ) => // tslint:disable-next-line:ban-types
   ((extState: any, event: EventObject) => boolean) | Function;
   delimiter?: string;
+  /**
+   * Returns the SCXML source of the document referenced by the `src` attribute of an
+   * `<invoke>` element. By default, the document is loaded from the local filesystem,
+   * relative to the current working directory (see `createFileResolver`).
+   */
+  resolveSrc?: (src: string) => string;
+  /**
+   * The sandbox that ECMAScript expressions and scripts are run in. Defaults to a
+   * sandbox created with `createVMSandbox()`.
+   */
+  sandbox?: ScxmlSandbox;
 }
 
-export function toMachine(
-  xml: string,
-  options: ScxmlToMachineOptions
-): StateNode {
-  const json = xml2js(xml) as XMLElement;
+interface ScxmlImportOptions extends ScxmlToMachineOptions {
+  dataModel: ECMAScriptDataModel;
+}
+
+function toCond(
+  expr: string,
+  options: ScxmlImportOptions,
+  extState?: {}
+): Condition<any, any> {
+  return options.evalCond
+    ? (options.evalCond(expr, extState) as Condition<any, any>)
+    : options.dataModel.toCond(expr);
+}
 
-  const machineElement = json.elements!.filter(
+function getMachineElement(parentElement: XMLElement): XMLElement | undefined {
+  return (parentElement.elements || []).find(
     element => element.name === 'scxml'
-  )[0];
+  );
+}
+
+/**
+ * Returns the state element that represents the machine itself in a document exported
+ * by `fromMachine`: the only state element of the document, whose ID is both the name
+ * and the initial state of the document.
+ */
+function getRootStateElement(
+  machineElement: XMLElement
+): XMLElement | undefined {
+  const name = getAttribute(machineElement, 'name');
+  const stateElements = (machineElement.elements || []).filter(
+    element =>
+      element.name === 'state' ||
+      element.name === 'parallel' ||
+      element.name === 'final'
+  );
+
+  return name !== undefined &&
+    getAttribute(machineElement, 'initial') === name &&
+    stateElements.length === 1 &&
+    stateElements[0].name !== 'final' &&
+    getAttribute(stateElements[0], 'id') === name
+    ? stateElements[0]
+    : undefined;
+}
 
-  const dataModelEl = machineElement.elements!.filter(
+function scxmlToMachine(
+  machineElement: XMLElement,
+  options: ScxmlToMachineOptions
+): StateNode {
+  const dataModel = new ECMAScriptDataModel(
+    options.sandbox || createVMSandbox(),
+    getAttribute(machineElement, 'name') as string | undefined
+  );
+  const importOptions: ScxmlImportOptions = { ...options, dataModel };
+
+  const dataModelEl = (machineElement.elements || []).filter(
     element => element.name === 'datamodel'
   )[0];
 
+  // Data model variables are initialized in document order, so that expressions can
+  // reference the variables declared before them
   const extState = dataModelEl
-    ? dataModelEl.elements!.reduce((acc, element) => {
-        acc[element.attributes!.id!] = element.attributes!.expr;
-        return acc;
-      }, {})
+    ? (dataModelEl.elements || [])
+        .filter(element => element.name === 'data')
+        .reduce(
+          (acc, element) => {
+            ensureSupportedAttributes(element, ['id', 'expr']);
+            const expr = getAttribute(element, 'expr');
+
+            acc[getRequiredAttribute(element, 'id')] =
+              expr !== undefined
+                ? dataModel.evaluate(`${expr}`, acc)
+                : element.elements
+                ? getContentValue(element)
+                : undefined;
+            return acc;
+          },
+          {} as Record<string, any>
+        )
     : undefined;
 
-  return Machine(
+  const rootStateElement = getRootStateElement(machineElement);
+  const machine = Machine(
     {
-      ...toConfig(machineElement, '(machine)', options, extState),
+      ...(rootStateElement
+        ? toConfig(
+            rootStateElement,
+            `${rootStateElement.attributes!.id}`,
+            importOptions,
+            extState
+          )
+        : toConfig(machineElement, '(machine)', importOptions, extState)),
       delimiter: options.delimiter
     },
     undefined,
     extState
   );
+
+  dataModel.machine = machine;
+
+  return machine;
+}
+
+export function toMachine(
+  xml: string,
+  options: ScxmlToMachineOptions = {}
+): StateNode {
+  return scxmlToMachine(getMachineElement(parseSCXML(xml))!, options);
 }
@@ -89,10 +89,14 @@ export interface HistoryValue {
   current: StateValue | undefined;
 }
 
-export type ConditionPredicate<TContext, TEvent extends EventObject> = (
+export type ConditionPredicate<
+  TContext,
+  TEvent extends EventObject,
+  TGuard extends Guard<TContext, TEvent> = Guard<TContext, TEvent>
+> = (
   context: TContext,
   event: TEvent,
-  meta: GuardMeta<TContext, TEvent>
+  meta: GuardMeta<TContext, TEvent, TGuard>
 ) => boolean;
 
 export interface GuardPredicate<TContext, TEvent extends EventObject> {
@@ -100,15 +104,41 @@ export interface GuardPredicate<TContext, TEvent extends EventObject> {
   predicate: ConditionPredicate<TContext, OmniEventObject<TEvent>>;
 }
 
+/**
+ * A guard that combines other guards:
+ *
+ * - `'xstate.and'` - passes if all of the `guards` pass
+ * - `'xstate.or'` - passes if any of the `guards` pass
+ * - `'xstate.not'` - passes if its single guard does not pass
+ */
+export interface GuardCombinator<TContext, TEvent extends EventObject> {
+  type: 'xstate.and' | 'xstate.or' | 'xstate.not';
+  guards: Array<Guard<TContext, TEvent>>;
+}
+
+/**
+ * A guard that references its implementation in the machine's `guards` option
+ * by its `type`, with optional static params, e.g., `{ type: 'greaterThan', value: 10 }`.
+ *
+ * The guard object (including its params) is passed to the implementation as `meta.cond`.
+ */
+export type GuardObject<
+  TParams extends Record<string, any> = Record<string, any>
+> = TParams & {
+  type: string;
+};
+
 export type Guard<TContext, TEvent extends EventObject> =
   | GuardPredicate<TContext, TEvent>
-  | Record<string, any> & {
-      type: string;
-    };
+  | GuardCombinator<TContext, TEvent>
+  | GuardObject;
 
-export interface GuardMeta<TContext, TEvent extends EventObject>
-  extends StateMeta<TContext, TEvent> {
-  cond: Guard<TContext, TEvent>;
+export interface GuardMeta<
+  TContext,
+  TEvent extends EventObject,
+  TGuard extends Guard<TContext, TEvent> = Guard<TContext, TEvent>
+> extends StateMeta<TContext, TEvent> {
+  cond: TGuard;
 }
 
 export type Condition<TContext, TEvent extends EventObject> =
@@ -158,6 +188,61 @@ export interface ActivityDefinition<TContext, TEvent extends EventObject>
 }
 
 export type Sender<TEvent extends EventObject> = (event: Event<TEvent>) => void;
+
+export interface Subscription {
+  unsubscribe(): void;
+}
+
+/**
+ * An observer of an observable-like source of values, such as an interpreted service.
+ */
+export interface Observer<T> {
+  next: (value: T) => void;
+  error: (error: any) => void;
+  complete: () => void;
+}
+
+/**
+ * An async iterator over the values of an observable-like source, as used by `for await`.
+ */
+export interface AsyncIteratorLike<T> {
+  next(): Promise<IteratorResult<T>>;
+  return(): Promise<IteratorResult<T>>;
+}
+
+/**
+ * An observable-like source of values, such as an RxJS `Observable`.
+ */
+export interface Subscribable<T> {
+  subscribe(
+    next: (value: T) => void,
+    error?: (error: any) => void,
+    complete?: () => void
+  ): Subscription;
+}
+
+/**
+ * A reference to a spawned actor (such as a spawned machine service), which can be
+ * stored in `context` and used as the `to` target of `send(...)` actions.
+ */
+export interface ActorRef<TEvent extends EventObject, TState = any> {
+  /**
+   * The ID of the actor, which is unique within the service that spawned it.
+   */
+  id: string;
+  /**
+   * Sends an event to the actor.
+   */
+  send: Sender<TEvent>;
+  /**
+   * The latest state of the actor, if any (e.g., the current `State` of a spawned machine).
+   */
+  readonly state: TState | undefined;
+  /**
+   * Serializes the actor reference as `{ id }`, so that it can be persisted in `context`.
+   */
+  toJSON: () => { id: string };
+}
 export type Receiver<TEvent extends EventObject> = (
   listener: (event: TEvent) => void
 ) => void;
@@ -167,6 +252,34 @@ export type InvokeCallback = ((
   onEvent: Receiver<EventObject>
 ) => any);
 
+/**
+ * A minimal equivalent of the DOM `AbortSignal`, which is aborted when the invoked service is stopped.
+ * In environments that support `AbortController`, a native `AbortSignal` is provided instead.
+ */
+export interface InvokeSignal {
+  readonly aborted: boolean;
+  onabort: ((...args: any[]) => any) | null;
+  addEventListener(type: 'abort', listener: () => void): void;
+  removeEventListener(type: 'abort', listener: () => void): void;
+}
+
+export interface InvokeAbortController {
+  readonly signal: InvokeSignal;
+  abort(): void;
+}
+
+export interface InvokeMeta {
+  /**
+   * The source of the invoked service.
+   */
+  src: string;
+  /**
+   * The signal that is aborted when the invoked service is stopped, such as when the
+   * invoking state is exited. It can be passed to cancelable APIs, such as `fetch(...)`.
+   */
+  signal: InvokeSignal;
+}
+
 /**
  * Returns either a Promises or a callback handler (for streams of events) given the
  * machine's current `context` and `event` that invoked the service.
@@ -177,15 +290,23 @@ export type InvokeCallback = ((
  *
  * For callback handlers, the `sender` will be provided, which will send events to the parent service.
  *
+ * For observables, each emitted value will be sent to the parent service as an event. When the observable:
+ * - completes, `done.invoke.<id>` will be sent to the parent service, or:
+ * - errors, `error.execution` will be sent, with the `data` containing the error,
+ *   and `src` containing the service `id`.
+ *
  * @param context The current machine `context`
  * @param event The event that invoked the service
+ * @param meta The invocation meta data, including the `signal` that is aborted when the service is stopped
  */
 export type InvokeCreator<TFinalContext, TContext> = (
   context: TContext,
-  event: EventObject
+  event: EventObject,
+  meta: InvokeMeta
 ) =>
   | PromiseLike<TFinalContext>
   | StateMachine<TFinalContext, any, any>
+  | Subscribable<EventObject>
   | InvokeCallback;
 
 export interface InvokeDefinition<TContext, TEvent extends EventObject>
@@ -207,6 +328,35 @@ export interface InvokeDefinition<TContext, TEvent extends EventObject>
    * Data should be mapped to match the child machine's context shape.
    */
   data?: Mapper<TContext, TEvent> | PropertyMapper<TContext, TEvent>;
+  /**
+   * The time (in milliseconds) that an invoked promise has to settle before it times out.
+   */
+  timeout?: number;
+  /**
+   * The policy for retrying an invoked promise that rejects or times out.
+   */
+  retry?: RetryPolicy;
+}
+
+export interface RetryPolicy {
+  /**
+   * The maximum number of times to retry the invoked service after it fails.
+   */
+  attempts: number;
+  /**
+   * The time (in milliseconds) to wait before retrying.
+   *
+   * Default: `1000`
+   */
+  delay?: number;
+  /**
+   * How the delay changes between retries:
+   * - `'fixed'` - the delay is the same for every retry
+   * - `'exponential'` - the delay doubles after every retry
+   *
+   * Default: `'fixed'`
+   */
+  backoff?: 'fixed' | 'exponential';
 }
 
 export interface Delay {
@@ -324,6 +474,18 @@ export type InvokeConfig<TContext, TEvent extends EventObject> =
       onError?:
         | string
         | SingleOrArray<TransitionConfig<TContext, DoneInvokeEvent<any>>>;
+      /**
+       * The time (in milliseconds) that an invoked promise has to settle before it times out.
+       */
+      timeout?: number;
+      /**
+       * The policy for retrying an invoked promise that rejects or times out.
+       */
+      retry?: RetryPolicy;
+      /**
+       * The transition to take upon the invoked promise timing out (after all retries, if any).
+       */
+      onTimeout?: string | SingleOrArray<TransitionConfig<TContext, TEvent>>;
     }
   | StateMachine<any, any, any>;
 
@@ -526,7 +688,11 @@ export type DelayConfig<TContext, TEvent extends EventObject> =
   | Expr<TContext, OmniEventObject<TEvent>, number>;
 
 export interface MachineOptions<TContext, TEvent extends EventObject> {
-  guards: Record<string, ConditionPredicate<TContext, TEvent>>;
+  /**
+   * The mapping of guard types to their implementations. Each implementation
+   * is passed the referencing guard object (with its params) as `meta.cond`.
+   */
+  guards: Record<string, ConditionPredicate<TContext, TEvent, GuardObject>>;
   actions: ActionFunctionMap<TContext, TEvent>;
   activities: Record<string, ActivityConfig<TContext, TEvent>>;
   services: Record<string, ServiceConfig<TContext>>;
@@ -634,7 +800,12 @@ export enum ActionTypes {
   Init = 'xstate.init',
   Invoke = 'xstate.invoke',
   ErrorExecution = 'error.execution',
-  ErrorCommunication = 'error.communication'
+  ErrorCommunication = 'error.communication',
+  Choose = 'xstate.choose',
+  Pure = 'xstate.pure',
+  Escalate = 'xstate.escalate',
+  ErrorPlatform = 'error.platform',
+  ErrorTimeout = 'error.timeout'
 }
 
 export interface RaisedEvent<TEvent extends EventObject> {
@@ -656,6 +827,14 @@ export interface ErrorExecutionEvent extends EventObject {
   data: any;
 }
 
+export interface ErrorPlatformEvent extends EventObject {
+  data: any;
+}
+
+export interface ErrorTimeoutEvent extends EventObject {
+  toString(): string;
+}
+
 export interface DoneEventObject extends EventObject {
   data?: any;
   toString(): string;
@@ -685,7 +864,12 @@ export interface ActivityActionObject<TContext, TEvent extends EventObject>
 
 export interface SendAction<TContext, TEvent extends EventObject>
   extends ActionObject<TContext, TEvent> {
-  to: string | number | Expr<TContext, TEvent, string | number> | undefined;
+  to:
+    | string
+    | number
+    | ActorRef<any>
+    | Expr<TContext, TEvent, string | number | ActorRef<any>>
+    | undefined;
   event: TEvent | SendExpr<TContext, TEvent>; // TODO: use Expr type
   delay?: number | string | Expr<TContext, TEvent, number>;
   id: string | number;
@@ -711,13 +895,17 @@ export type SendExpr<TContext, TEvent extends EventObject> = (
 
 export enum SpecialTargets {
   Parent = '#_parent',
-  Internal = '#_internal'
+  Internal = '#_internal',
+  Origin = '#_origin'
 }
 
 export interface SendActionOptions<TContext, TEvent extends EventObject> {
   id?: string | number;
   delay?: number | string | Expr<TContext, TEvent, number>;
-  to?: string | Expr<TContext, TEvent, string | number>;
+  to?:
+    | string
+    | ActorRef<any>
+    | Expr<TContext, TEvent, string | number | ActorRef<any>>;
 }
 
 export interface CancelAction extends ActionObject<any, any> {
@@ -769,6 +957,37 @@ export interface AssignAction<TContext, TEvent extends EventObject>
   assignment: Assigner<TContext, TEvent> | PropertyAssigner<TContext, TEvent>;
 }
 
+export interface ChooseCondition<TContext, TEvent extends EventObject> {
+  cond?: Guard<TContext, TEvent>;
+  actions: SingleOrArray<Action<TContext, TEvent>>;
+}
+
+export interface ChooseConditionConfig<TContext, TEvent extends EventObject> {
+  cond?: Condition<TContext, TEvent>;
+  actions: SingleOrArray<Action<TContext, TEvent>>;
+}
+
+export interface ChooseAction<TContext, TEvent extends EventObject>
+  extends ActionObject<TContext, TEvent> {
+  type: ActionTypes.Choose;
+  conds: Array<ChooseCondition<TContext, TEvent>>;
+}
+
+export interface EscalateAction<TContext, TEvent extends EventObject>
+  extends ActionObject<TContext, TEvent> {
+  type: ActionTypes.Escalate;
+  data: any | Expr<TContext, TEvent, any>;
+}
+
+export interface PureAction<TContext, TEvent extends EventObject>
+  extends ActionObject<TContext, TEvent> {
+  type: ActionTypes.Pure;
+  get: (
+    context: TContext,
+    event: TEvent
+  ) => SingleOrArray<Action<TContext, TEvent>> | undefined;
+}
+
 export interface TransitionDefinition<TContext, TEvent extends EventObject>
   extends TransitionConfig<TContext, TEvent> {
   actions: Array<ActionObject<TContext, TEvent>>;
@@ -876,6 +1095,32 @@ export interface StateConfig<TContext, TEvent extends EventObject> {
   tree?: StateTree;
 }
 
+/**
+ * The JSON-serializable representation of a `State` instance.
+ */
+export interface SerializedState<TContext, TEvent extends EventObject> {
+  /**
+   * The version of the serialization format.
+   */
+  version: number;
+  /**
+   * The `id` of the machine that the state was created from, if known.
+   */
+  machine?: string;
+  /**
+   * The `version` of the machine that the state was created from, if known.
+   */
+  machineVersion?: string;
+  value: StateValue;
+  context: TContext;
+  event: OmniEventObject<TEvent>;
+  historyValue?: HistoryValue | undefined;
+  /**
+   * A mapping of activity types to whether they are started (`true`) or stopped (`false`).
+   */
+  activities: Record<string, boolean>;
+}
+
 export interface StateSchema {
   meta?: any;
   states?: Record<string | number, StateSchema>;
@@ -907,4 +1152,199 @@ export interface InterpreterOptions {
    * Default: `false`
    */
   devTools: boolean;
+  /**
+   * The inspector that will receive inspection events from this service and its child services.
+   */
+  inspector?: Inspector;
+  /**
+   * The maximum number of states to keep in the service's `history`, which enables
+   * time-travel with `.undo()`, `.redo()` and `.jumpTo(index)`.
+   *
+   * Default: `0` (no history is kept)
+   */
+  historyLimit?: number;
+  /**
+   * If `true`, every event processed by the service is recorded, along with the time
+   * at which it was processed, in the service's `eventLog`.
+   *
+   * Default: `false`
+   */
+  recordEvents?: boolean;
+}
+
+export interface InterpreterMiddleware<
+  TContext,
+  TEvent extends EventObject = EventObject
+> {
+  /**
+   * Intercepts each event sent to the service before it is processed. The event is processed
+   * only when `next(event)` is called, which can be called:
+   * - with the same event, to observe it
+   * - with a different event, to transform it
+   * - later (asynchronously), to delay it
+   * - not at all, to drop it
+   *
+   * @param event The event sent to the service
+   * @param next Passes the event to the next middleware, or processes it if there are none
+   */
+  event?: (
+    event: OmniEventObject<TEvent>,
+    next: (event: OmniEventObject<TEvent>) => void
+  ) => void;
+  /**
+   * Intercepts each action before it is executed. The action is executed only when
+   * `next(action)` is called, which can be called with a different action to replace it,
+   * or not at all to skip it.
+   *
+   * @param action The action to be executed
+   * @param state The state whose actions are being executed
+   * @param next Passes the action to the next middleware, or executes it if there are none
+   */
+  action?: (
+    action: ActionObject<TContext, OmniEventObject<TEvent>>,
+    state: State<TContext, TEvent>,
+    next: (action: ActionObject<TContext, OmniEventObject<TEvent>>) => void
+  ) => void;
+}
+
+export interface EventLogEntry<TEvent extends EventObject = EventObject> {
+  /**
+   * The processed event.
+   */
+  event: OmniEventObject<TEvent>;
+  /**
+   * The time (according to the service's clock) at which the event was processed.
+   */
+  time: number;
+  /**
+   * The sender of the event, if it was sent by the parent service (`'#_parent'`)
+   * or by a child service (the child's `id`).
+   */
+  origin?: string | number;
+  /**
+   * The ID of the batch that the event was processed in, if it was sent in a batch.
+   */
+  batch?: number;
+}
+
+/**
+ * The kinds of actors that can be spawned by a service.
+ */
+export type ActorKind =
+  | 'machine'
+  | 'promise'
+  | 'callback'
+  | 'observable'
+  | 'activity';
+
+interface BaseInspectionEvent {
+  /**
+   * The `id` of the service that the inspection event originated from.
+   */
+  serviceId: string;
+  /**
+   * The time (according to the service's clock) at which the inspection event occurred.
+   */
+  time: number;
+}
+
+export interface ServiceCreatedInspectionEvent extends BaseInspectionEvent {
+  type: 'service.created';
+  /**
+   * The `id` of the parent service, if any.
+   */
+  parentId?: string;
+  machine: StateNodeDefinition<any, any, any>;
+}
+
+export interface ServiceStoppedInspectionEvent extends BaseInspectionEvent {
+  type: 'service.stopped';
+}
+
+export interface EventReceivedInspectionEvent extends BaseInspectionEvent {
+  type: 'event.received';
+  event: OmniEventObject<EventObject>;
+}
+
+export interface StateTransitionedInspectionEvent extends BaseInspectionEvent {
+  type: 'state.transitioned';
+  state: SerializedState<any, EventObject>;
+  event: OmniEventObject<EventObject>;
+}
+
+export interface ActorSpawnedInspectionEvent extends BaseInspectionEvent {
+  type: 'actor.spawned';
+  actorId: string;
+  kind: ActorKind;
+}
+
+export interface ActorStoppedInspectionEvent extends BaseInspectionEvent {
+  type: 'actor.stopped';
+  actorId: string;
+}
+
+export interface ActionExecutedInspectionEvent extends BaseInspectionEvent {
+  type: 'action.executed';
+  action: ActionObject<any, EventObject>;
+}
+
+/**
+ * The events that make up the inspection protocol. Each inspection event is a
+ * plain object that can be serialized as JSON.
+ */
+export type InspectionEvent =
+  | ServiceCreatedInspectionEvent
+  | ServiceStoppedInspectionEvent
+  | EventReceivedInspectionEvent
+  | StateTransitionedInspectionEvent
+  | ActorSpawnedInspectionEvent
+  | ActorStoppedInspectionEvent
+  | ActionExecutedInspectionEvent;
+
+/**
+ * Receives the inspection events of a service and all of its child services.
+ */
+export interface Inspector {
+  send: (event: InspectionEvent) => void;
+}
+
+export interface DelayedEventSnapshot<TEvent extends EventObject> {
+  /**
+   * The `id` of the `send(...)` action that scheduled the event.
+   */
+  id: string | number;
+  event: OmniEventObject<TEvent>;
+  to?: string | number;
+  /**
+   * The remaining time, in milliseconds, before the event is sent.
+   */
+  delay: number;
+}
+
+export interface ChildSnapshot {
+  id: string;
+  /**
+   * The kind of the child actor. Only child machines can be resumed from a snapshot;
+   * other invoked actors are invoked again.
+   */
+  kind: ActorKind;
+  /**
+   * The `id` of the child service's machine, if the child is a machine.
+   */
+  machine?: string;
+  autoForward: boolean;
+  /**
+   * The snapshot of the child service, if the child is a machine.
+   */
+  snapshot?: InterpreterSnapshot<any, any>;
+}
+
+/**
+ * A JSON-serializable representation of a running service, which can be
+ * passed to `service.start(snapshot)` to resume the service.
+ */
+export interface InterpreterSnapshot<TContext, TEvent extends EventObject> {
+  state: SerializedState<TContext, TEvent>;
+  delayedEvents: Array<DelayedEventSnapshot<TEvent>>;
+  children: ChildSnapshot[];
 }
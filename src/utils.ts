@@ -12,9 +12,12 @@ import {
   HistoryValue,
   OmniEventObject,
   AssignAction,
-  ActionObject
+  ActionObject,
+  Subscribable,
+  InvokeAbortController,
+  InvokeSignal
 } from './types';
-import { STATE_DELIMITER } from './constants';
+import { STATE_DELIMITER, WILDCARD } from './constants';
 import { State } from './State';
 import { IS_PRODUCTION } from './StateNode';
 
@@ -332,6 +335,76 @@ export function isBuiltInEvent(eventType: EventType): boolean {
   return false;
 }
 
+/**
+ * Returns `true` if the event type is matched by the event descriptor, which is either:
+ * - the exact event type (e.g., `'error.execution'`)
+ * - the wildcard descriptor `'*'`, which matches any event except eventless (transient) ones
+ * - a dotted prefix descriptor (e.g., `'error.*'`), which matches `'error'`
+ *   and any event starting with `'error.'`
+ *
+ * @param descriptor The event descriptor (key of the `on` transitions mapping)
+ * @param eventType The event type to match
+ */
+export function matchesEventDescriptor(
+  descriptor: string,
+  eventType: EventType
+): boolean {
+  if (descriptor === eventType) {
+    return true;
+  }
+
+  if (descriptor === WILDCARD) {
+    return eventType !== '';
+  }
+
+  if (descriptor.length > 2 && descriptor.slice(-2) === '.' + WILDCARD) {
+    const prefix = descriptor.slice(0, -2);
+
+    return eventType === prefix || eventType.indexOf(prefix + '.') === 0;
+  }
+
+  return false;
+}
+
+export function isObservable<T>(value: any): value is Subscribable<T> {
+  return !!value && typeof value === 'object' && isFunction(value.subscribe);
+}
+
+/**
+ * Creates an `AbortController`, or a minimal equivalent of it in environments
+ * that do not support `AbortController`.
+ */
+export function createAbortController(): InvokeAbortController {
+  if (typeof AbortController !== 'undefined') {
+    return new AbortController();
+  }
+
+  const listeners = new Set<() => void>();
+  let aborted = false;
+  const signal: InvokeSignal = {
+    get aborted() {
+      return aborted;
+    },
+    onabort: null,
+    addEventListener: (_, listener) => listeners.add(listener),
+    removeEventListener: (_, listener) => listeners.delete(listener)
+  };
+
+  return {
+    signal,
+    abort: () => {
+      if (aborted) {
+        return;
+      }
+      aborted = true;
+      if (signal.onabort) {
+        signal.onabort();
+      }
+      listeners.forEach(listener => listener());
+    }
+  };
+}
+
 export function isPromiseLike(value: any): value is PromiseLike<any> {
   if (value instanceof Promise) {
     return true;
@@ -0,0 +1,87 @@
+import { EventObject, Subscription } from './types';
+import { State } from './State';
+import { Interpreter } from './interpreter';
+
+/**
+ * Returns a promise that resolves with the first state of the service (including its
+ * current state) that satisfies the predicate. The promise is rejected if the timeout
+ * elapses, or if the service is stopped or throws before such a state is reached.
+ *
+ * The timeout uses the service's `clock`, so it can be controlled with a `SimulatedClock`.
+ *
+ * @param service The service to wait for
+ * @param predicate The function that determines whether a state is the awaited state
+ * @param timeout The maximum time to wait, in milliseconds (defaults to 10 seconds).
+ * Use `Infinity` to wait indefinitely.
+ */
+export function waitFor<TContext, TEvent extends EventObject>(
+  service: Interpreter<TContext, any, TEvent>,
+  predicate: (state: State<TContext, TEvent>) => boolean,
+  timeout: number = 10000
+): Promise<State<TContext, TEvent>> {
+  return new Promise((resolve, reject) => {
+    let settled = false;
+    let timeoutId: any;
+    let subscription: Subscription | undefined;
+
+    const settle = (callback: () => void) => {
+      if (settled) {
+        return;
+      }
+
+      settled = true;
+
+      if (timeoutId !== undefined) {
+        service.clock.clearTimeout(timeoutId);
+      }
+      if (subscription) {
+        subscription.unsubscribe();
+      }
+
+      callback();
+    };
+
+    if (timeout !== Infinity) {
+      timeoutId = service.clock.setTimeout(() => {
+        settle(() =>
+          reject(
+            new Error(
+              `Timeout of ${timeout} ms exceeded while waiting for service '${
+                service.id
+              }' to reach a state that satisfies the predicate.`
+            )
+          )
+        );
+      }, timeout);
+    }
+
+    subscription = service.subscribe({
+      next: state => {
+        try {
+          if (predicate(state)) {
+            settle(() => resolve(state));
+          }
+        } catch (e) {
+          settle(() => reject(e));
+        }
+      },
+      error: err => settle(() => reject(err)),
+      complete: () => {
+        settle(() =>
+          reject(
+            new Error(
+              `Service '${
+                service.id
+              }' was stopped before reaching a state that satisfies the predicate.`
+            )
+          )
+        );
+      }
+    });
+
+    // The current state may have already satisfied the predicate
+    if (settled) {
+      subscription.unsubscribe();
+    }
+  });
+}
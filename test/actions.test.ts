@@ -1,5 +1,7 @@
 import { assert } from 'chai';
-import { Machine, assign, interpret } from '../src/index';
+import { Machine, assign, interpret, actions } from '../src/index';
+
+const { choose, pure, send } = actions;
 
 describe('onEntry/onExit actions', () => {
   const pedestrianStates = {
@@ -696,3 +698,269 @@ describe('action meta', () => {
     interpret(testMachine).start();
   });
 });
+
+describe('choose', () => {
+  interface Ctx {
+    answer?: number;
+    valid: boolean;
+  }
+
+  it('should execute the actions of the first passing branch', () => {
+    const machine = Machine<Ctx>(
+      {
+        initial: 'foo',
+        context: { valid: true },
+        states: {
+          foo: {
+            entry: choose<Ctx, any>([
+              { cond: 'isInvalid', actions: assign<Ctx>({ answer: 0 }) },
+              { cond: 'isValid', actions: assign<Ctx>({ answer: 42 }) },
+              { actions: assign<Ctx>({ answer: 1 }) }
+            ])
+          }
+        }
+      },
+      {
+        guards: {
+          isValid: ctx => ctx.valid,
+          isInvalid: ctx => !ctx.valid
+        }
+      }
+    );
+
+    assert.equal(machine.initialState.context.answer, 42);
+  });
+
+  it('should execute the actions of a branch without a guard', () => {
+    const machine = Machine<Ctx>({
+      initial: 'foo',
+      context: { valid: false },
+      states: {
+        foo: {
+          on: {
+            CHECK: {
+              actions: choose<Ctx, any>([
+                {
+                  cond: ctx => ctx.valid,
+                  actions: assign<Ctx>({ answer: 42 })
+                },
+                { actions: [assign<Ctx>({ answer: 1 }), 'logInvalid'] }
+              ])
+            }
+          }
+        }
+      }
+    });
+
+    const nextState = machine.transition(machine.initialState, 'CHECK');
+
+    assert.equal(nextState.context.answer, 1);
+    assert.deepEqual(nextState.actions.map(action => action.type), [
+      'logInvalid'
+    ]);
+  });
+
+  it('should not execute any actions if no branch passes', () => {
+    const machine = Machine<Ctx>({
+      initial: 'foo',
+      context: { valid: false },
+      states: {
+        foo: {
+          on: {
+            CHECK: {
+              actions: choose<Ctx, any>([
+                { cond: ctx => ctx.valid, actions: 'logValid' }
+              ])
+            }
+          }
+        }
+      }
+    });
+
+    const nextState = machine.transition(machine.initialState, 'CHECK');
+
+    assert.lengthOf(nextState.actions, 0);
+  });
+
+  it('should evaluate guards against the context updated by the preceding assign actions', () => {
+    const machine = Machine<Ctx>({
+      initial: 'foo',
+      context: { valid: false },
+      states: {
+        foo: {
+          on: {
+            CHECK: {
+              actions: [
+                assign<Ctx>({ valid: true }),
+                choose<Ctx, any>([
+                  {
+                    cond: ctx => ctx.valid,
+                    actions: assign<Ctx>({ answer: 42 })
+                  },
+                  { actions: assign<Ctx>({ answer: 1 }) }
+                ])
+              ]
+            }
+          }
+        }
+      }
+    });
+
+    const nextState = machine.transition(machine.initialState, 'CHECK');
+
+    assert.equal(nextState.context.answer, 42);
+  });
+
+  it('should evaluate guards with the event', () => {
+    const machine = Machine<Ctx>({
+      initial: 'foo',
+      context: { valid: false },
+      states: {
+        foo: {
+          on: {
+            ANSWER: {
+              actions: choose<Ctx, any>([
+                {
+                  cond: (_, e) => e.answer > 0,
+                  actions: assign<Ctx>({ answer: (_, e) => e.answer })
+                }
+              ])
+            }
+          }
+        }
+      }
+    });
+
+    assert.equal(
+      machine.transition(machine.initialState, { type: 'ANSWER', answer: 42 })
+        .context.answer,
+      42
+    );
+    assert.isUndefined(
+      machine.transition(machine.initialState, { type: 'ANSWER', answer: -1 })
+        .context.answer
+    );
+  });
+
+  it('should resolve nested choose actions and raised events', () => {
+    const machine = Machine<Ctx>({
+      initial: 'foo',
+      context: { valid: true },
+      states: {
+        foo: {
+          on: {
+            CHECK: {
+              actions: choose<Ctx, any>([
+                {
+                  cond: ctx => ctx.valid,
+                  actions: choose<Ctx, any>([{ actions: send('NEXT') }])
+                }
+              ])
+            },
+            NEXT: 'bar'
+          }
+        },
+        bar: {}
+      }
+    });
+
+    const service = interpret(machine).start();
+    service.send('CHECK');
+
+    assert.equal(service.state.value, 'bar');
+  });
+
+  it('should throw on creation if a referenced guard is not implemented', () => {
+    assert.throws(
+      () =>
+        Machine(
+          {
+            initial: 'foo',
+            states: {
+              foo: {
+                entry: choose<Ctx, any>([
+                  { cond: 'isMissing', actions: 'someAction' }
+                ])
+              }
+            }
+          },
+          { guards: {} }
+        ),
+      /Guard \(condition\) 'isMissing' referenced in the entry or exit actions of state node '\(machine\)\.foo'/
+    );
+  });
+});
+
+describe('pure', () => {
+  interface Ctx {
+    ids: string[];
+    count: number;
+  }
+
+  const machine = Machine<Ctx>({
+    id: 'pure',
+    initial: 'active',
+    context: { ids: ['a', 'b'], count: 0 },
+    states: {
+      active: {
+        on: {
+          NOTIFY: {
+            actions: pure<Ctx, any>(ctx =>
+              ctx.ids.map(id => send('NOTIFY', { to: id }))
+            )
+          },
+          INCREMENT: {
+            actions: pure<Ctx, any>((ctx, e) => [
+              assign<Ctx>({ count: ctx.count + e.by }),
+              'incremented'
+            ])
+          },
+          NOTHING: {
+            actions: pure<Ctx, any>(() => undefined)
+          }
+        }
+      }
+    }
+  });
+
+  it('should resolve the returned actions as if they were inline', () => {
+    const nextState = machine.transition(machine.initialState, 'NOTIFY');
+
+    assert.deepEqual(
+      nextState.actions.map(action => [action.type, action.to]),
+      [['xstate.send', 'a'], ['xstate.send', 'b']]
+    );
+  });
+
+  it('should update the context with returned assign actions', () => {
+    const nextState = machine.transition(machine.initialState, {
+      type: 'INCREMENT',
+      by: 2
+    });
+
+    assert.equal(nextState.context.count, 2);
+    assert.deepEqual(nextState.actions.map(action => action.type), [
+      'incremented'
+    ]);
+  });
+
+  it('should allow no actions to be returned', () => {
+    const nextState = machine.transition(machine.initialState, 'NOTHING');
+
+    assert.lengthOf(nextState.actions, 0);
+  });
+
+  it('should be resolvable from entry actions', () => {
+    const entryMachine = Machine<Ctx>({
+      initial: 'active',
+      context: { ids: [], count: 1 },
+      states: {
+        active: {
+          entry: pure<Ctx, any>(ctx => assign<Ctx>({ count: ctx.count * 10 }))
+        }
+      }
+    });
+
+    assert.equal(entryMachine.initialState.context.count, 10);
+  });
+});
@@ -0,0 +1,181 @@
+import { assert } from 'chai';
+import { Machine, interpret } from '../src';
+import { SimulatedClock } from '../src/interpreter';
+
+describe('SimulatedClock', () => {
+  it('should fire timers in chronological order', () => {
+    const clock = new SimulatedClock();
+    const fired: string[] = [];
+
+    clock.setTimeout(() => fired.push('a'), 300);
+    clock.setTimeout(() => fired.push('b'), 100);
+    clock.setTimeout(() => fired.push('c'), 200);
+    clock.setTimeout(() => fired.push('d'), 100);
+
+    clock.increment(300);
+
+    assert.deepEqual(fired, ['b', 'd', 'c', 'a']);
+  });
+
+  it('should set the current time to the time of each timer while it fires', () => {
+    const clock = new SimulatedClock();
+    const times: number[] = [];
+
+    clock.setTimeout(() => times.push(clock.now()), 50);
+    clock.setTimeout(() => times.push(clock.now()), 20);
+
+    clock.runUntil(100);
+
+    assert.deepEqual(times, [20, 50]);
+    assert.equal(clock.now(), 100);
+  });
+
+  it('should fire timers that are set while firing', () => {
+    const clock = new SimulatedClock();
+    const fired: string[] = [];
+
+    clock.setTimeout(() => {
+      fired.push('a');
+      clock.setTimeout(() => fired.push('b'), 10);
+      clock.setTimeout(() => fired.push('c'), 100);
+    }, 10);
+    clock.setTimeout(() => fired.push('d'), 30);
+
+    clock.runUntil(50);
+
+    assert.deepEqual(fired, ['a', 'b', 'd']);
+
+    clock.runAll();
+
+    assert.deepEqual(fired, ['a', 'b', 'd', 'c']);
+    assert.equal(clock.now(), 110);
+  });
+
+  it('should not fire timers that are cleared while firing', () => {
+    const clock = new SimulatedClock();
+    const fired: string[] = [];
+    const id = clock.setTimeout(() => fired.push('b'), 20);
+
+    clock.setTimeout(() => {
+      fired.push('a');
+      clock.clearTimeout(id);
+    }, 10);
+
+    clock.runAll();
+
+    assert.deepEqual(fired, ['a']);
+  });
+
+  it('should advance to the next timer', () => {
+    const clock = new SimulatedClock();
+    const fired: string[] = [];
+
+    clock.setTimeout(() => fired.push('a'), 100);
+    clock.setTimeout(() => fired.push('b'), 100);
+    clock.setTimeout(() => fired.push('c'), 250);
+
+    assert.isTrue(clock.advanceToNextTimer());
+    assert.deepEqual(fired, ['a', 'b']);
+    assert.equal(clock.now(), 100);
+
+    assert.isTrue(clock.advanceToNextTimer());
+    assert.deepEqual(fired, ['a', 'b', 'c']);
+    assert.equal(clock.now(), 250);
+
+    assert.isFalse(clock.advanceToNextTimer());
+    assert.equal(clock.now(), 250);
+  });
+
+  it('should list the pending timers in firing order', () => {
+    const clock = new SimulatedClock();
+
+    clock.increment(10);
+    const a = clock.setTimeout(() => void 0, 100);
+    const b = clock.setTimeout(() => void 0, 50);
+    clock.clearTimeout(clock.setTimeout(() => void 0, 10));
+
+    assert.deepEqual(clock.getPendingTimers(), [
+      { id: b, start: 10, timeout: 50, time: 60 },
+      { id: a, start: 10, timeout: 100, time: 110 }
+    ]);
+
+    clock.increment(50);
+
+    assert.deepEqual(clock.getPendingTimers().map(timer => timer.id), [a]);
+  });
+
+  it('should throw when running all timers that are set indefinitely', () => {
+    const clock = new SimulatedClock();
+    const tick = () => clock.setTimeout(tick, 10);
+
+    tick();
+
+    assert.throws(() => clock.runAll(), /indefinitely/);
+  });
+
+  it('should not travel back in time', () => {
+    const clock = new SimulatedClock();
+
+    clock.set(100);
+
+    assert.throws(() => clock.runUntil(50), /back in time/);
+    assert.throws(() => clock.set(50), /back in time/);
+  });
+
+  it('should fire delayed transitions in chronological order', () => {
+    const machine = Machine({
+      id: 'light',
+      initial: 'green',
+      states: {
+        green: { after: { 1000: 'yellow' } },
+        yellow: { after: { 500: 'red' } },
+        red: { after: { 2000: 'green' } }
+      }
+    });
+    const clock = new SimulatedClock();
+    const transitions: Array<[string, number]> = [];
+
+    interpret(machine, { clock })
+      .onTransition(state =>
+        transitions.push([state.value as string, clock.now()])
+      )
+      .start();
+
+    clock.runUntil(3500);
+
+    assert.deepEqual(transitions, [
+      ['green', 0],
+      ['yellow', 1000],
+      ['red', 1500],
+      ['green', 3500]
+    ]);
+    assert.deepEqual(clock.getPendingTimers().map(timer => timer.time), [4500]);
+  });
+
+  it('should fire the delayed transitions of invoked services', () => {
+    const childMachine = Machine({
+      id: 'child',
+      initial: 'waiting',
+      states: {
+        waiting: { after: { 1000: 'done' } },
+        done: { type: 'final' }
+      }
+    });
+    const parentMachine = Machine({
+      id: 'parent',
+      initial: 'active',
+      states: {
+        active: {
+          invoke: { src: childMachine, onDone: 'done' }
+        },
+        done: {}
+      }
+    });
+    const clock = new SimulatedClock();
+    const service = interpret(parentMachine, { clock }).start();
+
+    clock.increment(1000);
+
+    assert.isTrue(service.state.matches('done'));
+  });
+});
@@ -1,5 +1,5 @@
 import { assert } from 'chai';
-import { Machine } from '../src/index';
+import { Machine, and, or, not } from '../src/index';
 
 describe('guard conditions', () => {
   // type LightMachineEvents =
@@ -43,11 +43,7 @@ describe('guard conditions', () => {
             }
           }
         },
-        red: {
-          on: {
-            BAD_COND: { target: 'red', cond: 'doesNotExist' }
-          }
-        }
+        red: {}
       }
     },
     {
@@ -118,7 +114,18 @@ describe('guard conditions', () => {
   });
 
   it('should throw if string transition is not defined', () => {
-    assert.throws(() => lightMachine.transition('red', 'BAD_COND'));
+    const badMachine = Machine({
+      initial: 'red',
+      states: {
+        red: {
+          on: {
+            BAD_COND: { target: 'red', cond: 'doesNotExist' }
+          }
+        }
+      }
+    });
+
+    assert.throws(() => badMachine.transition('red', 'BAD_COND'));
   });
 });
 
@@ -248,7 +255,7 @@ describe('custom guards', () => {
     {
       guards: {
         custom: (ctx, e, meta) => {
-          const { prop, compare, op } = meta.cond as any; // TODO: fix
+          const { prop, compare, op } = meta.cond;
           if (op === 'greaterThan') {
             return ctx[prop] + e.value > compare;
           }
@@ -275,3 +282,204 @@ describe('custom guards', () => {
     assert.equal(failState.value, 'inactive');
   });
 });
+
+describe('guard combinators', () => {
+  const doorMachine = Machine(
+    {
+      id: 'door',
+      initial: 'closed',
+      context: {
+        level: 'admin',
+        locked: false
+      },
+      states: {
+        closed: {
+          on: {
+            OPEN: {
+              target: 'opened',
+              cond: and(['isAdmin', not('isLocked')])
+            },
+            FORCE_OPEN: {
+              target: 'opened',
+              cond: or([
+                not('isAdmin'),
+                (_, e) => e.force,
+                { type: 'hasLevel', level: 'admin' }
+              ])
+            }
+          }
+        },
+        opened: {}
+      }
+    },
+    {
+      guards: {
+        isAdmin: ctx => ctx.level === 'admin',
+        isLocked: ctx => ctx.locked,
+        hasLevel: (ctx, _, { cond }) => ctx.level === cond.level
+      }
+    }
+  );
+
+  it('should pass an and() guard only if all guards pass', () => {
+    assert.equal(doorMachine.transition('closed', 'OPEN').value, 'opened');
+
+    const lockedState = doorMachine.transition('closed', 'OPEN', {
+      level: 'admin',
+      locked: true
+    });
+    assert.equal(lockedState.value, 'closed');
+
+    const userState = doorMachine.transition('closed', 'OPEN', {
+      level: 'user',
+      locked: false
+    });
+    assert.equal(userState.value, 'closed');
+  });
+
+  it('should pass an or() guard if any guard passes', () => {
+    const context = { level: 'guest', locked: false };
+
+    assert.equal(
+      doorMachine.transition('closed', 'FORCE_OPEN', context).value,
+      'opened'
+    );
+    assert.equal(
+      doorMachine.transition('closed', 'FORCE_OPEN').value,
+      'opened',
+      'should pass the named guard with the guard object as meta'
+    );
+    assert.equal(
+      doorMachine.transition('closed', 'FORCE_OPEN', {
+        level: 'superadmin',
+        locked: false
+      }).value,
+      'opened'
+    );
+  });
+
+  it('should keep named guards serializable in the definition', () => {
+    const [transition] = doorMachine.states.closed.definition.on.OPEN;
+
+    assert.deepEqual(JSON.parse(JSON.stringify(transition.cond)), {
+      type: 'xstate.and',
+      guards: [
+        { type: 'isAdmin' },
+        { type: 'xstate.not', guards: [{ type: 'isLocked' }] }
+      ]
+    });
+  });
+
+  it('should throw if a combined guard is not implemented', () => {
+    const machine = Machine({
+      initial: 'a',
+      states: {
+        a: { on: { EVENT: { target: 'b', cond: not('doesNotExist') } } },
+        b: {}
+      }
+    });
+
+    assert.throws(() => machine.transition('a', 'EVENT'), /doesNotExist/);
+  });
+});
+
+describe('parameterized guards', () => {
+  const counterMachine = Machine(
+    {
+      id: 'counter',
+      initial: 'counting',
+      context: { count: 0 },
+      states: {
+        counting: {
+          on: {
+            CHECK: {
+              target: 'done',
+              cond: { type: 'greaterThan', value: 10 }
+            }
+          }
+        },
+        done: {}
+      }
+    },
+    {
+      guards: {
+        greaterThan: (ctx, _, { cond }) => ctx.count > cond.value
+      }
+    }
+  );
+
+  it('should pass the guard params to the guard implementation', () => {
+    assert.equal(
+      counterMachine.transition('counting', 'CHECK', { count: 11 }).value,
+      'done'
+    );
+    assert.equal(
+      counterMachine.transition('counting', 'CHECK', { count: 10 }).value,
+      'counting'
+    );
+  });
+
+  it('should serialize the guard params in the definition', () => {
+    const [transition] = counterMachine.definition.states.counting.on.CHECK;
+
+    assert.deepEqual(JSON.parse(JSON.stringify(transition.cond)), {
+      type: 'greaterThan',
+      value: 10
+    });
+  });
+
+  it('should throw on creation if a referenced guard is not implemented', () => {
+    assert.throws(
+      () =>
+        Machine(
+          {
+            initial: 'a',
+            states: {
+              a: {
+                after: {
+                  1000: { target: 'b', cond: and(['isValid', 'isReady']) }
+                }
+              },
+              b: {}
+            }
+          },
+          {
+            guards: { isValid: () => true }
+          }
+        ),
+      /'isReady'/
+    );
+  });
+
+  it('should validate guards provided with .withConfig()', () => {
+    const machine = Machine({
+      initial: 'a',
+      states: { a: { on: { E: { target: 'a', cond: 'isValid' } } } }
+    });
+
+    assert.throws(
+      () => machine.withConfig({ guards: { isReady: () => true } }),
+      /'isValid'/
+    );
+    assert.doesNotThrow(() =>
+      machine.withConfig({ guards: { isValid: () => true } })
+    );
+  });
+
+  it('should not validate guards of clones when no guards are provided', () => {
+    const machine = Machine({
+      initial: 'a',
+      states: { a: { on: { E: { target: 'a', cond: 'isValid' } } } }
+    });
+
+    assert.doesNotThrow(() => machine.withContext({}));
+    assert.doesNotThrow(() => machine.withConfig({ actions: {} }));
+    assert.throws(
+      () =>
+        machine
+          .withConfig({ actions: {} })
+          .withConfig({ guards: { isReady: () => true } }),
+      /'isValid'/
+    );
+  });
+});
@@ -0,0 +1,230 @@
+import { assert } from 'chai';
+import { PassThrough } from 'stream';
+import {
+  Machine,
+  interpret,
+  assign,
+  createStreamInspector,
+  createInspectionReceiver,
+  formatInspectionEvent,
+  InspectionEvent
+} from '../src';
+import { SimulatedClock } from '../src/interpreter';
+
+const childMachine = Machine({
+  id: 'child',
+  initial: 'active',
+  states: {
+    active: {}
+  }
+});
+
+const parentMachine = Machine<{ count: number }>({
+  id: 'parent',
+  initial: 'idle',
+  context: { count: 0 },
+  states: {
+    idle: {
+      on: {
+        START: {
+          target: 'running',
+          actions: assign({ count: ctx => ctx.count + 1 })
+        }
+      }
+    },
+    running: {
+      invoke: { id: 'child', src: childMachine },
+      on: { STOP: 'idle' }
+    }
+  }
+});
+
+function collect(events: InspectionEvent[]) {
+  return { send: (event: InspectionEvent) => events.push(event) };
+}
+
+describe('inspection', () => {
+  it('should send inspection events for the lifecycle of a service', () => {
+    const events: InspectionEvent[] = [];
+    const service = interpret(parentMachine, {
+      inspector: collect(events),
+      clock: new SimulatedClock()
+    }).start();
+
+    service.send('START');
+    service.send('STOP');
+    service.stop();
+
+    assert.deepEqual(events.map(event => [event.serviceId, event.type]), [
+      ['parent', 'service.created'],
+      ['parent', 'state.transitioned'],
+      ['parent', 'event.received'],
+      ['parent', 'action.executed'],
+      ['child', 'service.created'],
+      ['child', 'state.transitioned'],
+      ['parent', 'actor.spawned'],
+      ['parent', 'state.transitioned'],
+      ['parent', 'event.received'],
+      ['parent', 'action.executed'],
+      ['child', 'service.stopped'],
+      ['parent', 'actor.stopped'],
+      ['parent', 'state.transitioned'],
+      ['parent', 'service.stopped']
+    ]);
+  });
+
+  it('should include the details of each inspection event', () => {
+    const events: InspectionEvent[] = [];
+    const clock = new SimulatedClock();
+    const service = interpret(parentMachine, {
+      inspector: collect(events),
+      clock
+    }).start();
+
+    clock.increment(10);
+    service.send('START');
+
+    const [created, , received, executed, childCreated] = events;
+    const spawned = events.find(event => event.type === 'actor.spawned');
+    const transitioned = events[events.length - 1];
+
+    assert.equal(
+      created.type === 'service.created' && created.machine.id,
+      'parent'
+    );
+    assert.equal(
+      childCreated.type === 'service.created' && childCreated.parentId,
+      'parent'
+    );
+    assert.deepEqual(received.type === 'event.received' && received.event, {
+      type: 'START'
+    });
+    assert.equal(received.time, 10);
+    assert.equal(
+      executed.type === 'action.executed' && executed.action.type,
+      'xstate.start'
+    );
+    assert.deepEqual(spawned, {
+      type: 'actor.spawned',
+      serviceId: 'parent',
+      time: 10,
+      actorId: 'child',
+      kind: 'machine'
+    });
+    assert.equal(
+      transitioned.type === 'state.transitioned' && transitioned.state.value,
+      'running'
+    );
+    assert.deepEqual(
+      transitioned.type === 'state.transitioned' && transitioned.state.context,
+      { count: 1 }
+    );
+  });
+
+  it('should send inspection events for spawned promises', done => {
+    const events: InspectionEvent[] = [];
+    const promiseMachine = Machine({
+      id: 'promise',
+      initial: 'pending',
+      states: {
+        pending: {
+          invoke: {
+            id: 'fetch',
+            src: () => Promise.resolve(42),
+            onDone: 'done'
+          }
+        },
+        done: { type: 'final' }
+      }
+    });
+
+    interpret(promiseMachine, { inspector: collect(events) })
+      .onDone(() => {
+        const actorEvents = events.filter(
+          event =>
+            event.type === 'actor.spawned' || event.type === 'actor.stopped'
+        );
+
+        assert.deepEqual(actorEvents.map(event => event.type), [
+          'actor.spawned',
+          'actor.stopped'
+        ]);
+        const [spawned] = actorEvents;
+
+        assert.equal(
+          spawned.type === 'actor.spawned' && spawned.kind,
+          'promise'
+        );
+        done();
+      })
+      .start();
+  });
+
+  it('should send inspection events over a stream as newline-delimited JSON', done => {
+    const stream = new PassThrough();
+    const received: InspectionEvent[] = [];
+
+    stream.on(
+      'data',
+      createInspectionReceiver(event => {
+        received.push(event);
+
+        if (event.type === 'service.stopped' && event.serviceId === 'parent') {
+          assert.deepEqual(received.map(receivedEvent => receivedEvent.type), [
+            'service.created',
+            'state.transitioned',
+            'event.received',
+            'action.executed',
+            'service.created',
+            'state.transitioned',
+            'actor.spawned',
+            'state.transitioned',
+            'service.stopped',
+            'actor.stopped',
+            'service.stopped'
+          ]);
+          done();
+        }
+      })
+    );
+
+    const service = interpret(parentMachine, {
+      inspector: createStreamInspector(stream)
+    }).start();
+
+    service.send('START');
+    service.stop();
+  });
+
+  it('should receive inspection events split across chunks', () => {
+    const received: InspectionEvent[] = [];
+    const receive = createInspectionReceiver(event => received.push(event));
+    const line = JSON.stringify({
+      type: 'service.stopped',
+      serviceId: 'test',
+      time: 0
+    });
+
+    receive(line.slice(0, 10));
+    assert.lengthOf(received, 0);
+
+    receive(line.slice(10) + '\n' + line);
+    assert.lengthOf(received, 1);
+
+    receive('\n');
+    assert.lengthOf(received, 2);
+  });
+
+  it('should format inspection events', () => {
+    assert.equal(
+      formatInspectionEvent({
+        type: 'actor.spawned',
+        serviceId: 'parent',
+        time: 10,
+        actorId: 'child',
+        kind: 'machine'
+      }),
+      '[10] parent spawned machine child'
+    );
+  });
+});
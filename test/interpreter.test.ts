@@ -12,7 +12,7 @@ import {
   spawn
 } from '../src';
 import { State } from '../src/State';
-import { log, actionTypes, doneInvoke } from '../src/actions';
+import { log, actionTypes, doneInvoke, error } from '../src/actions';
 
 const lightMachine = Machine({
   id: 'light',
@@ -970,6 +970,488 @@ describe('interpreter', () => {
     });
   });
 
+  describe('middleware', () => {
+    interface CounterEvent extends EventObject {
+      value?: any;
+    }
+
+    const counterMachine = Machine<{ count: number }, any, CounterEvent>({
+      id: 'counter',
+      initial: 'active',
+      context: { count: 0 },
+      states: {
+        active: {
+          on: {
+            INC: {
+              actions: [
+                assign({ count: ctx => ctx.count + 1 }),
+                { type: 'notify' }
+              ]
+            },
+            ADD: {
+              actions: assign({ count: (ctx, e) => ctx.count + e.value })
+            }
+          }
+        }
+      }
+    }).withConfig({
+      actions: { notify: () => void 0 }
+    });
+
+    it('should pass events through event middleware before processing them', () => {
+      const events: string[] = [];
+      const service = interpret(counterMachine)
+        .use({
+          event: (event, next) => {
+            events.push(event.type);
+            next(event);
+          }
+        })
+        .start();
+
+      service.send('INC');
+      service.send('INC');
+
+      assert.deepEqual(events, ['INC', 'INC']);
+      assert.equal(service.state.context.count, 2);
+    });
+
+    it('should allow event middleware to transform events', () => {
+      const service = interpret(counterMachine)
+        .use({
+          event: (event: CounterEvent, next) =>
+            next(
+              event.type === 'ADD'
+                ? { ...event, value: Number(event.value) }
+                : event
+            )
+        })
+        .start();
+
+      service.send('ADD', { value: '5' });
+
+      assert.strictEqual(service.state.context.count, 5);
+    });
+
+    it('should allow event middleware to drop events', () => {
+      const service = interpret(counterMachine)
+        .use({
+          event: (event, next) => {
+            if (event.type !== 'INC') {
+              next(event);
+            }
+          }
+        })
+        .start();
+
+      service.send('INC');
+      service.send('ADD', { value: 3 });
+
+      assert.equal(service.state.context.count, 3);
+    });
+
+    it('should allow event middleware to delay events', done => {
+      const service = interpret(counterMachine)
+        .use({
+          event: (event, next) => {
+            setTimeout(() => next(event));
+          }
+        })
+        .start();
+
+      service.send('INC');
+      assert.equal(service.state.context.count, 0);
+
+      setTimeout(() => {
+        assert.equal(service.state.context.count, 1);
+        done();
+      });
+    });
+
+    it('should run middleware in the order it is added', () => {
+      const service = interpret(counterMachine)
+        .use({
+          event: (event: CounterEvent, next) =>
+            next({ ...event, value: event.value * 2 })
+        })
+        .use({
+          event: (event: CounterEvent, next) =>
+            next({ ...event, value: event.value + 1 })
+        })
+        .start();
+
+      service.send('ADD', { value: 3 });
+
+      assert.equal(service.state.context.count, 7);
+    });
+
+    it('should pass each batched event through event middleware', () => {
+      const service = interpret(counterMachine)
+        .use({
+          event: (event, next) => {
+            if (event.type !== 'ADD') {
+              next(event);
+            }
+          }
+        })
+        .start();
+
+      service.send(['INC', { type: 'ADD', value: 10 }, 'INC']);
+
+      assert.equal(service.state.context.count, 2);
+    });
+
+    it('should pass actions through action middleware before executing them', () => {
+      const actionTypes: string[] = [];
+      let notified = 0;
+      const service = interpret(
+        counterMachine.withConfig({
+          actions: { notify: () => notified++ }
+        })
+      )
+        .use({
+          action: (action, state, next) => {
+            actionTypes.push(action.type);
+            assert.equal(state.context.count, 1);
+            next(action);
+          }
+        })
+        .start();
+
+      service.send('INC');
+
+      assert.deepEqual(actionTypes, ['notify']);
+      assert.equal(notified, 1);
+    });
+
+    it('should allow action middleware to replace and skip actions', () => {
+      const logs: any[] = [];
+      const service = interpret(
+        counterMachine.withConfig({
+          actions: {
+            notify: () => {
+              throw new Error('should be skipped');
+            }
+          }
+        }),
+        { logger: msg => logs.push(msg) }
+      )
+        .use({
+          action: (action, _, next) => {
+            if (action.type === 'notify') {
+              next(log(() => 'notified'));
+            }
+          }
+        })
+        .use({
+          action: (action, _, next) => {
+            if (action.type !== 'notify') {
+              next(action);
+            }
+          }
+        })
+        .start();
+
+      service.send('INC');
+
+      assert.deepEqual(logs, ['notified']);
+    });
+  });
+
+  describe('time travel', () => {
+    const counterMachine = Machine<{ count: number }>(
+      {
+        id: 'counter',
+        initial: 'active',
+        context: { count: 0 },
+        states: {
+          active: {
+            on: {
+              INC: {
+                actions: [assign({ count: ctx => ctx.count + 1 }), 'notify']
+              }
+            }
+          }
+        }
+      },
+      {
+        actions: { notify: () => void 0 }
+      }
+    );
+
+    it('should not keep a history by default', () => {
+      const service = interpret(counterMachine).start();
+      service.send('INC');
+
+      assert.lengthOf(service.history, 0);
+      assert.throws(() => service.jumpTo(0), /historyLimit/);
+    });
+
+    it('should keep a bounded history of states', () => {
+      const service = interpret(counterMachine, { historyLimit: 3 }).start();
+      service.send('INC');
+      service.send('INC');
+      service.send('INC');
+
+      assert.deepEqual(service.history.map(state => state.context.count), [
+        1,
+        2,
+        3
+      ]);
+      assert.equal(service.historyIndex, 2);
+    });
+
+    it('should undo and redo states without executing actions', () => {
+      let notified = 0;
+      const transitions: number[] = [];
+      const service = interpret(
+        counterMachine.withConfig({
+          actions: { notify: () => notified++ }
+        }),
+        { historyLimit: 10 }
+      )
+        .onTransition(state => transitions.push(state.context.count))
+        .start();
+
+      service.send('INC');
+      service.send('INC');
+      assert.equal(notified, 2);
+
+      service.undo();
+      assert.equal(service.state.context.count, 1);
+      service.undo().undo();
+      assert.equal(service.state.context.count, 0);
+
+      service.redo();
+      assert.equal(service.state.context.count, 1);
+
+      assert.equal(notified, 2);
+      assert.deepEqual(transitions, [0, 1, 2, 1, 0, 1]);
+    });
+
+    it('should jump to any state in the history', () => {
+      const service = interpret(counterMachine, { historyLimit: 10 }).start();
+      service.send('INC');
+      service.send('INC');
+
+      service.jumpTo(0);
+      assert.equal(service.state.context.count, 0);
+      assert.equal(service.historyIndex, 0);
+
+      service.jumpTo(2);
+      assert.equal(service.state.context.count, 2);
+
+      assert.throws(() => service.jumpTo(3));
+    });
+
+    it('should discard undone states when an event is processed', () => {
+      const service = interpret(counterMachine, { historyLimit: 10 }).start();
+      service.send('INC');
+      service.send('INC');
+
+      service.undo();
+      service.send('INC');
+
+      assert.deepEqual(service.history.map(state => state.context.count), [
+        0,
+        1,
+        2
+      ]);
+      assert.equal(service.historyIndex, 2);
+
+      service.redo();
+      assert.equal(service.state.context.count, 2);
+    });
+
+    describe('devTools', () => {
+      let devToolsListener: (message: any) => void;
+      let devToolsState: any;
+
+      beforeEach(() => {
+        (global as any).window = {
+          __REDUX_DEVTOOLS_EXTENSION__: {
+            connect: () => ({
+              init: () => void 0,
+              send: (_: any, liftedState: any) => (devToolsState = liftedState),
+              subscribe: (listener: (message: any) => void) =>
+                (devToolsListener = listener)
+            })
+          }
+        };
+      });
+
+      afterEach(() => {
+        delete (global as any).window;
+      });
+
+      it('should restore the state that the DevTools jumped to', () => {
+        const service = interpret(counterMachine, { devTools: true }).start();
+        const initialState = JSON.stringify(service.state);
+
+        service.send('INC');
+        devToolsListener({
+          type: 'DISPATCH',
+          payload: { type: 'JUMP_TO_STATE' },
+          state: initialState
+        });
+
+        assert.equal(service.state.context.count, 0);
+      });
+
+      it('should recompute the states when the DevTools skip an event', () => {
+        const service = interpret(counterMachine, { devTools: true }).start();
+        const initialState = service.state;
+
+        service.send('INC');
+        service.send('INC');
+
+        devToolsListener({
+          type: 'DISPATCH',
+          payload: { type: 'TOGGLE_ACTION', id: 1 },
+          state: JSON.stringify({
+            actionsById: {
+              0: { action: { type: '@@INIT' } },
+              1: { action: { type: 'INC' } },
+              2: { action: { type: 'INC' } }
+            },
+            computedStates: [{ state: initialState }],
+            skippedActionIds: [],
+            stagedActionIds: [0, 1, 2],
+            currentStateIndex: 2
+          })
+        });
+
+        assert.equal(service.state.context.count, 1);
+        assert.deepEqual(devToolsState.skippedActionIds, [1]);
+        assert.deepEqual(
+          devToolsState.computedStates.map(
+            (computedState: any) => computedState.state.context.count
+          ),
+          [0, 0, 1]
+        );
+      });
+    });
+  });
+
+  describe('observable', () => {
+    const toggleMachine = Machine({
+      id: 'toggle',
+      initial: 'inactive',
+      states: {
+        inactive: { on: { TOGGLE: 'active' } },
+        active: { on: { TOGGLE: 'inactive', FINISH: 'done' } },
+        done: { type: 'final' }
+      }
+    });
+
+    it('should notify observers of the current state and each subsequent state', () => {
+      const service = interpret(toggleMachine).start();
+      const states: StateValue[] = [];
+      let completed = false;
+
+      service.subscribe({
+        next: state => states.push(state.value),
+        complete: () => (completed = true)
+      });
+      service.send('TOGGLE');
+      service.send('TOGGLE');
+
+      assert.deepEqual(states, ['inactive', 'active', 'inactive']);
+      assert.isFalse(completed);
+    });
+
+    it('should complete observers when the service is stopped', () => {
+      const service = interpret(toggleMachine);
+      const states: StateValue[] = [];
+      let completed = 0;
+
+      service.subscribe(
+        state => states.push(state.value),
+        undefined,
+        () => completed++
+      );
+      service.start();
+      service.send('TOGGLE');
+      service.send('FINISH');
+      service.stop();
+
+      assert.deepEqual(states, ['inactive', 'active', 'done']);
+      assert.equal(completed, 1);
+    });
+
+    it('should not notify observers that have unsubscribed', () => {
+      const service = interpret(toggleMachine).start();
+      const states: StateValue[] = [];
+
+      const subscription = service.subscribe(state => states.push(state.value));
+      subscription.unsubscribe();
+      service.send('TOGGLE');
+
+      assert.deepEqual(states, ['inactive']);
+    });
+
+    it('should notify observers of errors while processing events', () => {
+      const service = interpret(toggleMachine).start();
+      let receivedError: any;
+
+      service.subscribe({ error: err => (receivedError = err) });
+
+      assert.throws(() => service.send(error('oops', 'child')));
+      assert.equal(receivedError, 'oops');
+    });
+
+    it('should be interoperable with observable libraries', () => {
+      const service = interpret(toggleMachine);
+      const symbolObservable =
+        (typeof Symbol === 'function' && Symbol.observable) || '@@observable';
+
+      assert.equal(service[symbolObservable](), service);
+    });
+
+    it('should iterate over states asynchronously', async () => {
+      const service = interpret(toggleMachine).start();
+      const states: StateValue[] = [];
+
+      setTimeout(() => {
+        service.send('TOGGLE');
+        service.send('FINISH');
+      });
+
+      for await (const state of service) {
+        states.push(state.value);
+      }
+
+      assert.deepEqual(states, ['inactive', 'active', 'done']);
+    });
+
+    it('should stop iterating when the iterator is returned', async () => {
+      const service = interpret(toggleMachine).start();
+      const iterator = service[Symbol.asyncIterator]();
+
+      assert.equal((await iterator.next()).value.value, 'inactive');
+      await iterator.return();
+      service.send('TOGGLE');
+
+      assert.isTrue((await iterator.next()).done);
+    });
+
+    it('should reject the pending iteration when processing an event throws', async () => {
+      const service = interpret(toggleMachine).start();
+      const iterator = service[Symbol.asyncIterator]();
+
+      await iterator.next();
+      const next = iterator.next();
+      assert.throws(() => service.send(error('oops', 'child')));
+
+      try {
+        await next;
+        assert.fail('iteration should have been rejected');
+      } catch (err) {
+        assert.equal(err, 'oops');
+      }
+    });
+  });
+
   describe('transient states', () => {
     it('should transition in correct order', () => {
       const stateMachine = Machine({
@@ -1033,7 +1515,7 @@ describe('interpreter', () => {
     });
   });
 
-  describe.only('spawning actors', () => {
+  describe('spawning actors', () => {
     const todoMachine = Machine({
       id: 'todo',
       initial: 'incomplete',
@@ -5,10 +5,21 @@ import {
   sendParent,
   send,
   EventObject,
-  StateValue
+  StateValue,
+  Subscribable,
+  InvokeMeta,
+  InvokeSignal
 } from '../src/index';
 import { assert } from 'chai';
-import { actionTypes, done as _done, doneInvoke } from '../src/actions';
+import {
+  actionTypes,
+  done as _done,
+  doneInvoke,
+  forwardTo,
+  respond,
+  escalate
+} from '../src/actions';
+import { SimulatedClock } from '../src/interpreter';
 
 const user = { name: 'David' };
 
@@ -533,9 +544,9 @@ describe('invoke', () => {
         function createThenable(promise: Promise<any>): PromiseLike<any> {
           return {
             then(onfulfilled, onrejected) {
-              return createThenable(promise.then(onfulfilled, onrejected))
+              return createThenable(promise.then(onfulfilled, onrejected));
             }
-          }
+          };
         }
         return createThenable(new Promise(executor));
       }
@@ -1364,6 +1375,444 @@ describe('invoke', () => {
     });
   });
 
+  describe('with observables', () => {
+    interface TestObservable<T> extends Subscribable<T> {
+      next: (value: T) => void;
+      error: (errorData: any) => void;
+      complete: () => void;
+      subscribed: boolean;
+    }
+
+    function createObservable<T>(): TestObservable<T> {
+      let observer: {
+        next: (value: T) => void;
+        error?: (errorData: any) => void;
+        complete?: () => void;
+      };
+
+      const observable: TestObservable<T> = {
+        subscribed: false,
+        subscribe: (next, error, complete) => {
+          observer = { next, error, complete };
+          observable.subscribed = true;
+
+          return {
+            unsubscribe: () => {
+              observable.subscribed = false;
+            }
+          };
+        },
+        next: value => observer.next(value),
+        error: errorData => observer.error!(errorData),
+        complete: () => observer.complete!()
+      };
+
+      return observable;
+    }
+
+    it('should send emitted values to the parent as events', () => {
+      const observable = createObservable<{ type: 'COUNT'; value: number }>();
+
+      const machine = Machine<{ count: number }>({
+        id: 'observable',
+        initial: 'counting',
+        context: { count: 0 },
+        states: {
+          counting: {
+            invoke: {
+              id: 'count',
+              src: () => observable
+            },
+            on: {
+              COUNT: { actions: assign({ count: (_, e) => e.value }) }
+            }
+          }
+        }
+      });
+
+      const service = interpret(machine).start();
+
+      observable.next({ type: 'COUNT', value: 5 });
+
+      assert.equal(service.state.context.count, 5);
+    });
+
+    it('should take the onDone transition when the observable completes', done => {
+      const observable = createObservable<EventObject>();
+
+      const machine = Machine({
+        id: 'observable',
+        initial: 'active',
+        states: {
+          active: {
+            invoke: {
+              id: 'events',
+              src: () => observable,
+              onDone: 'success'
+            }
+          },
+          success: { type: 'final' }
+        }
+      });
+
+      interpret(machine)
+        .onDone(() => done())
+        .start();
+
+      observable.complete();
+    });
+
+    it('should take the onError transition when the observable errors', done => {
+      const observable = createObservable<EventObject>();
+
+      const machine = Machine({
+        id: 'observable',
+        initial: 'active',
+        states: {
+          active: {
+            invoke: {
+              id: 'events',
+              src: () => observable,
+              onError: {
+                target: 'failure',
+                cond: (_, e) => e.data.message === 'failed'
+              }
+            }
+          },
+          failure: { type: 'final' }
+        }
+      });
+
+      interpret(machine)
+        .onDone(() => done())
+        .start();
+
+      observable.error(new Error('failed'));
+    });
+
+    it('should unsubscribe when the invoking state is exited', () => {
+      const observable = createObservable<EventObject>();
+
+      const machine = Machine({
+        id: 'observable',
+        initial: 'active',
+        states: {
+          active: {
+            invoke: {
+              id: 'events',
+              src: () => observable
+            },
+            on: { STOP: 'inactive' }
+          },
+          inactive: {}
+        }
+      });
+
+      const service = interpret(machine).start();
+      assert.isTrue(observable.subscribed);
+
+      service.send('STOP');
+      assert.isFalse(observable.subscribed);
+    });
+  });
+
+  describe('with timeouts and retries', () => {
+    const flush = () => new Promise(resolve => setTimeout(resolve));
+
+    const createMachine = (invoke: any) =>
+      Machine({
+        id: 'fetcher',
+        initial: 'pending',
+        states: {
+          pending: {
+            invoke: {
+              id: 'fetchUser',
+              src: 'fetchUser',
+              onDone: 'success',
+              onError: 'failure',
+              onTimeout: 'timedOut',
+              ...invoke
+            }
+          },
+          success: {},
+          failure: {},
+          timedOut: {}
+        }
+      });
+
+    it('should send a timeout event if the promise does not settle in time', async () => {
+      const machine = createMachine({ timeout: 100 }).withConfig({
+        services: {
+          fetchUser: () => new Promise(() => void 0)
+        }
+      });
+      const clock = new SimulatedClock();
+      const service = interpret(machine, { clock }).start();
+
+      clock.increment(99);
+      await flush();
+      assert.equal(service.state.value, 'pending');
+
+      clock.increment(1);
+      assert.equal(service.state.value, 'timedOut');
+    });
+
+    it('should ignore a promise that resolves after it timed out', async () => {
+      let resolve: (data: any) => void = () => void 0;
+      const machine = createMachine({
+        timeout: 100,
+        onTimeout: undefined
+      }).withConfig({
+        services: {
+          fetchUser: () => new Promise(res => (resolve = res))
+        }
+      });
+      const clock = new SimulatedClock();
+      const service = interpret(machine, { clock }).start();
+
+      clock.increment(100);
+      resolve(user);
+      await flush();
+
+      assert.equal(service.state.value, 'pending');
+    });
+
+    it('should restart the service until it resolves', async () => {
+      let calls = 0;
+      const machine = createMachine({
+        retry: { attempts: 3, delay: 10 }
+      }).withConfig({
+        services: {
+          fetchUser: () => {
+            calls++;
+            return calls < 3
+              ? Promise.reject('offline')
+              : Promise.resolve(user);
+          }
+        }
+      });
+      const clock = new SimulatedClock();
+      const service = interpret(machine, { clock }).start();
+
+      await flush();
+      clock.increment(10);
+      await flush();
+      clock.increment(10);
+      await flush();
+
+      assert.equal(calls, 3);
+      assert.equal(service.state.value, 'success');
+    });
+
+    it('should retry timed out attempts', async () => {
+      let calls = 0;
+      const machine = createMachine({
+        timeout: 50,
+        retry: { attempts: 1, delay: 0 }
+      }).withConfig({
+        services: {
+          fetchUser: () => {
+            calls++;
+            return calls === 1
+              ? new Promise(() => void 0)
+              : Promise.resolve(user);
+          }
+        }
+      });
+      const clock = new SimulatedClock();
+      const service = interpret(machine, { clock }).start();
+
+      clock.increment(50);
+      await flush();
+
+      assert.equal(calls, 2);
+      assert.equal(service.state.value, 'success');
+    });
+
+    it('should abort the signal of timed out attempts', async () => {
+      const signals: InvokeSignal[] = [];
+      const machine = createMachine({
+        timeout: 50,
+        retry: { attempts: 1, delay: 0 }
+      }).withConfig({
+        services: {
+          fetchUser: (_, __, { signal }) => {
+            signals.push(signal);
+            return new Promise(() => void 0);
+          }
+        }
+      });
+      const clock = new SimulatedClock();
+      interpret(machine, { clock }).start();
+
+      clock.increment(50);
+      await flush();
+
+      assert.lengthOf(signals, 2);
+      assert.isTrue(signals[0].aborted);
+      assert.isFalse(signals[1].aborted);
+
+      clock.increment(50);
+      assert.isTrue(signals[1].aborted);
+    });
+
+    it('should send an error event once all retries fail', async () => {
+      let calls = 0;
+      const machine = createMachine({
+        retry: { attempts: 2, delay: 10, backoff: 'exponential' }
+      }).withConfig({
+        services: {
+          fetchUser: () => {
+            calls++;
+            return Promise.reject('offline');
+          }
+        }
+      });
+      const clock = new SimulatedClock();
+      const service = interpret(machine, { clock }).start();
+
+      await flush();
+      clock.increment(10);
+      await flush();
+      assert.equal(calls, 2);
+
+      // The delay doubles after every retry
+      clock.increment(19);
+      await flush();
+      assert.equal(calls, 2);
+
+      clock.increment(1);
+      await flush();
+      assert.equal(calls, 3);
+      assert.equal(service.state.value, 'failure');
+    });
+
+    it('should send a timeout event if the last retry times out', async () => {
+      let calls = 0;
+      const machine = createMachine({
+        timeout: 50,
+        retry: { attempts: 1, delay: 10 }
+      }).withConfig({
+        services: {
+          fetchUser: () => {
+            calls++;
+            return calls === 1
+              ? Promise.reject('offline')
+              : new Promise(() => void 0);
+          }
+        }
+      });
+      const clock = new SimulatedClock();
+      const service = interpret(machine, { clock }).start();
+
+      await flush();
+      clock.increment(10);
+      clock.increment(50);
+
+      assert.equal(calls, 2);
+      assert.equal(service.state.value, 'timedOut');
+    });
+
+    it('should cancel pending retries when the service is stopped', async () => {
+      let calls = 0;
+      const machine = createMachine({
+        retry: { attempts: 1, delay: 10 }
+      }).withConfig({
+        services: {
+          fetchUser: () => {
+            calls++;
+            return Promise.reject('offline');
+          }
+        }
+      });
+      const clock = new SimulatedClock();
+      const service = interpret(machine, { clock }).start();
+
+      await flush();
+      service.stop();
+      clock.increment(10);
+
+      assert.equal(calls, 1);
+    });
+  });
+
+  describe('with abort signals', () => {
+    const createMachine = (src: any) =>
+      Machine({
+        id: 'fetcher',
+        initial: 'pending',
+        states: {
+          pending: {
+            invoke: { id: 'fetchUser', src },
+            on: { CANCEL: 'idle' }
+          },
+          idle: {}
+        }
+      });
+
+    it('should pass the signal and src to the service creator', () => {
+      let meta: InvokeMeta | undefined;
+      const machine = createMachine('fetchUser').withConfig({
+        services: {
+          fetchUser: (_, __, invokeMeta) => {
+            meta = invokeMeta;
+            return new Promise(() => void 0);
+          }
+        }
+      });
+
+      interpret(machine).start();
+
+      assert.equal(meta!.src, 'fetchUser');
+      assert.isFalse(meta!.signal.aborted);
+    });
+
+    it('should abort the signal when the invoking state is exited', done => {
+      const machine = createMachine(
+        (_: any, __: any, { signal }: InvokeMeta) =>
+          new Promise((_resolve, reject) => {
+            signal.addEventListener('abort', () => reject('aborted'));
+          })
+      );
+
+      const service = interpret(machine).start();
+      service.send('CANCEL');
+
+      setTimeout(() => {
+        assert.equal(service.state.value, 'idle');
+        done();
+      });
+    });
+
+    it('should abort the signal of invoked callbacks', () => {
+      let signal: InvokeSignal | undefined;
+      const machine = createMachine(
+        (_: any, __: any, meta: InvokeMeta) => () => {
+          signal = meta.signal;
+        }
+      );
+
+      const service = interpret(machine).start();
+      assert.isFalse(signal!.aborted);
+
+      service.send('CANCEL');
+      assert.isTrue(signal!.aborted);
+    });
+
+    it('should abort the signal when the service is stopped', () => {
+      let signal: InvokeSignal | undefined;
+      const machine = createMachine((_: any, __: any, meta: InvokeMeta) => {
+        signal = meta.signal;
+        return new Promise(() => void 0);
+      });
+
+      const service = interpret(machine).start();
+      service.stop();
+
+      assert.isTrue(signal!.aborted);
+    });
+  });
+
   describe('nested invoked machine', () => {
     const pongMachine = Machine({
       id: 'pong',
@@ -1570,4 +2019,221 @@ describe('invoke', () => {
         .start();
     });
   });
+
+  describe('actor communication actions', () => {
+    it('forwardTo() should forward the current event to the target child', done => {
+      const childMachine = Machine({
+        id: 'child',
+        initial: 'waiting',
+        states: {
+          waiting: {
+            on: {
+              EVENT: {
+                target: 'success',
+                cond: (_, e) => e.value === 42
+              }
+            }
+          },
+          success: { type: 'final' }
+        }
+      });
+
+      const parentMachine = Machine({
+        id: 'parent',
+        initial: 'active',
+        states: {
+          active: {
+            invoke: {
+              id: 'child',
+              src: childMachine,
+              onDone: 'success'
+            },
+            on: {
+              EVENT: { actions: forwardTo('child') }
+            }
+          },
+          success: { type: 'final' }
+        }
+      });
+
+      interpret(parentMachine)
+        .onDone(() => done())
+        .start()
+        .send({ type: 'EVENT', value: 42 });
+    });
+
+    it('respond() should send an event back to the parent that sent the event', done => {
+      const pongMachine = Machine({
+        id: 'pong',
+        initial: 'active',
+        states: {
+          active: {
+            on: {
+              PING: { actions: respond('PONG') }
+            }
+          }
+        }
+      });
+
+      const pingMachine = Machine({
+        id: 'ping',
+        initial: 'active',
+        states: {
+          active: {
+            invoke: {
+              id: 'pong',
+              src: pongMachine
+            },
+            entry: send('PING', { to: 'pong' }),
+            on: { PONG: 'success' }
+          },
+          success: { type: 'final' }
+        }
+      });
+
+      interpret(pingMachine)
+        .onDone(() => done())
+        .start();
+    });
+
+    it('respond() should send an event back to the child that sent the event', done => {
+      const childMachine = Machine({
+        id: 'child',
+        initial: 'requesting',
+        states: {
+          requesting: {
+            entry: sendParent('REQUEST'),
+            on: { RESPONSE: 'done' }
+          },
+          done: { type: 'final' }
+        }
+      });
+
+      const parentMachine = Machine({
+        id: 'parent',
+        initial: 'active',
+        states: {
+          active: {
+            invoke: [
+              { id: 'first', src: childMachine },
+              { id: 'second', src: childMachine, onDone: 'success' }
+            ],
+            on: {
+              REQUEST: { actions: respond('RESPONSE') }
+            }
+          },
+          success: { type: 'final' }
+        }
+      });
+
+      interpret(parentMachine)
+        .onDone(() => done())
+        .start();
+    });
+
+    it('respond() should send an event back to the callback that sent the event', done => {
+      const parentMachine = Machine({
+        id: 'parent',
+        initial: 'active',
+        states: {
+          active: {
+            invoke: {
+              id: 'callback',
+              src: () => (callback, onReceive) => {
+                onReceive(e => {
+                  if (e.type === 'PONG') {
+                    callback('DONE');
+                  }
+                });
+                callback('PING');
+              }
+            },
+            on: {
+              PING: { actions: respond('PONG') },
+              DONE: 'success'
+            }
+          },
+          success: { type: 'final' }
+        }
+      });
+
+      interpret(parentMachine)
+        .onDone(() => done())
+        .start();
+    });
+
+    it('escalate() should send an error.platform event to the parent', done => {
+      const childMachine = Machine({
+        id: 'child',
+        initial: 'active',
+        states: {
+          active: {
+            entry: escalate({ message: 'failed' })
+          }
+        }
+      });
+
+      const parentMachine = Machine({
+        id: 'parent',
+        initial: 'active',
+        context: { errorMessage: '' },
+        states: {
+          active: {
+            invoke: {
+              id: 'child',
+              src: childMachine,
+              onError: {
+                target: 'failure',
+                actions: assign({ errorMessage: (_, e) => e.data.message })
+              }
+            }
+          },
+          failure: { type: 'final' }
+        }
+      });
+
+      interpret(parentMachine)
+        .onTransition(state => {
+          if (state.matches('failure')) {
+            assert.equal(state.context.errorMessage, 'failed');
+            done();
+          }
+        })
+        .start();
+    });
+
+    it('escalate() should evaluate error data expressions', done => {
+      const childMachine = Machine({
+        id: 'child',
+        initial: 'active',
+        context: { code: 42 },
+        states: {
+          active: {
+            entry: escalate((ctx: { code: number }) => ({ code: ctx.code }))
+          }
+        }
+      });
+
+      const parentMachine = Machine({
+        id: 'parent',
+        initial: 'active',
+        states: {
+          active: {
+            invoke: { id: 'child', src: childMachine },
+            on: {
+              'error.platform.child': {
+                target: 'failure',
+                cond: (_, e) => e.data.code === 42
+              }
+            }
+          },
+          failure: { type: 'final' }
+        }
+      });
+
+      interpret(parentMachine)
+        .onDone(() => done())
+        .start();
+    });
+  });
 });
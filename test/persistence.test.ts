@@ -0,0 +1,268 @@
+import { assert } from 'chai';
+import { Machine, interpret, assign, send, spawn } from '../src';
+import { SimulatedClock } from '../src/interpreter';
+import { doneInvoke } from '../src/actions';
+
+const lightMachine = Machine({
+  id: 'light',
+  initial: 'green',
+  context: { count: 0 },
+  states: {
+    green: {
+      entry: assign({ count: (ctx: any) => ctx.count + 1 }),
+      after: {
+        10: 'yellow'
+      }
+    },
+    yellow: {
+      after: {
+        10: 'red'
+      }
+    },
+    red: {}
+  }
+});
+
+const childMachine = Machine({
+  id: 'child',
+  initial: 'one',
+  states: {
+    one: { on: { NEXT: 'two' } },
+    two: { on: { FINISH: 'done' } },
+    done: { type: 'final' }
+  }
+});
+
+const parentMachine = Machine({
+  id: 'parent',
+  initial: 'active',
+  states: {
+    active: {
+      invoke: {
+        id: 'child',
+        src: childMachine,
+        forward: true,
+        onDone: 'success'
+      }
+    },
+    success: { type: 'final' }
+  }
+});
+
+function roundTrip<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+describe('persistence', () => {
+  it('should resume from a snapshot with the same state and context', () => {
+    const service = interpret(lightMachine, {
+      clock: new SimulatedClock()
+    }).start();
+
+    const snapshot = roundTrip(service.getSnapshot());
+    const restoredService = interpret(lightMachine, {
+      clock: new SimulatedClock()
+    }).start(snapshot);
+
+    assert.equal(restoredService.state.value, 'green');
+    assert.deepEqual(restoredService.state.context, service.state.context);
+  });
+
+  it('should resume delayed events with their remaining time', () => {
+    const service = interpret(lightMachine, {
+      clock: new SimulatedClock()
+    }).start();
+
+    (service.clock as SimulatedClock).increment(6);
+    const snapshot = roundTrip(service.getSnapshot());
+    service.stop();
+
+    assert.lengthOf(snapshot.delayedEvents, 1);
+    assert.equal(snapshot.delayedEvents[0].delay, 4);
+
+    const restoredService = interpret(lightMachine, {
+      clock: new SimulatedClock()
+    }).start(snapshot);
+    const clock = restoredService.clock as SimulatedClock;
+
+    clock.increment(3);
+    assert.equal(restoredService.state.value, 'green');
+
+    clock.increment(1);
+    assert.equal(restoredService.state.value, 'yellow');
+
+    clock.increment(10);
+    assert.equal(restoredService.state.value, 'red');
+  });
+
+  it('should not re-execute entry actions when resuming', () => {
+    const service = interpret(lightMachine, {
+      clock: new SimulatedClock()
+    }).start();
+
+    const restoredService = interpret(lightMachine, {
+      clock: new SimulatedClock()
+    }).start(roundTrip(service.getSnapshot()));
+
+    assert.deepEqual(restoredService.state.context, service.state.context);
+    assert.lengthOf(restoredService.getSnapshot().delayedEvents, 1);
+  });
+
+  it('should resume invoked child services from their snapshots', done => {
+    const service = interpret(parentMachine).start();
+    service.send('NEXT');
+
+    const snapshot = roundTrip(service.getSnapshot());
+    service.stop();
+
+    assert.lengthOf(snapshot.children, 1);
+    assert.equal(snapshot.children[0].snapshot!.state.value, 'two');
+
+    const restoredService = interpret(parentMachine)
+      .onDone(() => done())
+      .start(snapshot);
+
+    // Only handled by the child in its restored 'two' state
+    restoredService.send('FINISH');
+  });
+
+  it('should resume spawned child services found in the machine services', done => {
+    const todoMachine = Machine({
+      id: 'todo',
+      initial: 'incomplete',
+      states: {
+        incomplete: {
+          on: { SET_COMPLETE: 'complete' }
+        },
+        complete: { type: 'final' }
+      }
+    });
+
+    const todosMachine = Machine(
+      {
+        id: 'todos',
+        context: { todoRefs: {} },
+        initial: 'active',
+        states: {
+          active: {
+            on: {
+              [doneInvoke('42')]: 'success'
+            }
+          },
+          success: { type: 'final' }
+        },
+        on: {
+          ADD: {
+            actions: assign({
+              todoRefs: (ctx: any, e) => ({
+                ...ctx.todoRefs,
+                [e.id]: spawn(todoMachine, e.id)
+              })
+            })
+          },
+          SET_COMPLETE: {
+            actions: send('SET_COMPLETE', {
+              to: (_, e) => e.id as string
+            })
+          }
+        }
+      },
+      {
+        services: { todo: todoMachine }
+      }
+    );
+
+    const service = interpret(todosMachine).start();
+    service.send('ADD', { id: '42' });
+
+    const snapshot = roundTrip(service.getSnapshot());
+    service.stop();
+
+    assert.deepEqual(snapshot.children.map(child => child.id), ['42']);
+
+    const restoredService = interpret(todosMachine)
+      .onDone(() => done())
+      .start(snapshot);
+
+    restoredService.send('SET_COMPLETE', { id: '42' });
+  });
+
+  it('should throw when resuming a spawned machine that is not in the machine services', () => {
+    const spawningMachine = Machine<{ ref?: any }>({
+      id: 'spawning',
+      context: {},
+      initial: 'active',
+      states: {
+        active: {
+          entry: assign<{ ref?: any }>({ ref: () => spawn(childMachine) })
+        }
+      }
+    });
+    const snapshot = roundTrip(
+      interpret(spawningMachine)
+        .start()
+        .getSnapshot()
+    );
+
+    assert.throws(
+      () => interpret(spawningMachine).start(snapshot),
+      "Unable to restore the spawned machine 'child' on service 'spawning': machine 'child' was not found in the machine's services."
+    );
+  });
+
+  it('should throw when resuming a spawned promise', () => {
+    const spawningMachine = Machine<{ ref?: any }>({
+      id: 'spawning',
+      context: {},
+      initial: 'active',
+      states: {
+        active: {
+          entry: assign<{ ref?: any }>({
+            ref: () => spawn(new Promise(() => void 0), 'pending')
+          })
+        }
+      }
+    });
+    const snapshot = roundTrip(
+      interpret(spawningMachine)
+        .start()
+        .getSnapshot()
+    );
+
+    assert.deepEqual(snapshot.children, [
+      { id: 'pending', kind: 'promise', autoForward: false }
+    ]);
+    assert.throws(
+      () => interpret(spawningMachine).start(snapshot),
+      /Unable to restore the spawned promise 'pending'/
+    );
+  });
+
+  it('should invoke invoked promises again when resuming', () => {
+    let invoked = 0;
+    const invokingMachine = Machine({
+      id: 'invoking',
+      initial: 'active',
+      states: {
+        active: {
+          invoke: {
+            id: 'pending',
+            src: () => {
+              invoked++;
+              return new Promise(() => void 0);
+            }
+          }
+        }
+      }
+    });
+    const snapshot = roundTrip(
+      interpret(invokingMachine)
+        .start()
+        .getSnapshot()
+    );
+
+    interpret(invokingMachine).start(snapshot);
+
+    assert.equal(invoked, 2);
+  });
+});
@@ -0,0 +1,287 @@
+import { assert } from 'chai';
+import {
+  Machine,
+  interpret,
+  assign,
+  sendParent,
+  spawn,
+  EventLogEntry,
+  State
+} from '../src';
+import { SimulatedClock } from '../src/interpreter';
+import { doneInvoke } from '../src/actions';
+
+interface FetchContext {
+  user?: string;
+  retries: number;
+}
+
+const fetchMachine = Machine<FetchContext>(
+  {
+    id: 'fetch',
+    initial: 'idle',
+    context: { retries: 0 },
+    states: {
+      idle: {
+        on: { FETCH: 'loading' }
+      },
+      loading: {
+        entry: 'notify',
+        invoke: {
+          id: 'fetchUser',
+          src: 'fetchUser',
+          onDone: {
+            target: 'success',
+            actions: assign<FetchContext>({ user: (_, e) => e.data })
+          }
+        },
+        after: {
+          100: {
+            target: 'loading',
+            actions: assign<FetchContext>({ retries: ctx => ctx.retries + 1 })
+          }
+        }
+      },
+      success: {
+        on: { RESET: 'idle' }
+      }
+    }
+  },
+  {
+    actions: {
+      notify: () => void 0
+    },
+    services: {
+      fetchUser: () => new Promise(() => void 0)
+    }
+  }
+);
+
+function toSnapshot(state: State<any>) {
+  return { value: state.value, context: state.context };
+}
+
+describe('event log recording', () => {
+  it('should record the processed events with their clock times', () => {
+    const clock = new SimulatedClock();
+    const service = interpret(fetchMachine, {
+      clock,
+      recordEvents: true
+    }).start();
+
+    clock.increment(5);
+    service.send('FETCH');
+    clock.increment(100);
+
+    assert.deepEqual(service.eventLog, [
+      { event: { type: 'xstate.init' }, time: 0 },
+      { event: { type: 'FETCH' }, time: 5 },
+      {
+        event: { type: 'xstate.after(100)#fetch.loading' },
+        time: 105
+      }
+    ]);
+  });
+
+  it('should not record events by default', () => {
+    const service = interpret(fetchMachine).start();
+    service.send('FETCH');
+
+    assert.lengthOf(service.eventLog, 0);
+  });
+
+  it('should record the origin of events sent by child services', () => {
+    const childMachine = Machine({
+      id: 'child',
+      initial: 'active',
+      states: {
+        active: {
+          on: { PING: { actions: sendParent('PONG') } }
+        }
+      }
+    });
+
+    const parentMachine = Machine({
+      id: 'parent',
+      initial: 'active',
+      states: {
+        active: {
+          invoke: { id: 'child', src: childMachine, forward: true },
+          on: { PONG: 'done' }
+        },
+        done: {}
+      }
+    });
+
+    const service = interpret(parentMachine, { recordEvents: true }).start();
+    service.send('PING');
+
+    assert.deepEqual(
+      service.eventLog.map(entry => [entry.event.type, entry.origin]),
+      [['xstate.init', undefined], ['PING', undefined], ['PONG', 'child']]
+    );
+  });
+
+  it('should record the batch of batched events', () => {
+    const service = interpret(fetchMachine, { recordEvents: true }).start();
+    service.send(['FETCH', 'RESET']);
+
+    assert.deepEqual(service.eventLog.map(entry => entry.batch), [
+      undefined,
+      0,
+      0
+    ]);
+  });
+});
+
+describe('replay', () => {
+  function record(done: (eventLog: EventLogEntry[], states: any[]) => void) {
+    const clock = new SimulatedClock();
+    const states: any[] = [];
+    let resolveUser: (user: string) => void = () => void 0;
+
+    const service = interpret(
+      fetchMachine.withConfig({
+        services: {
+          fetchUser: () => new Promise(resolve => (resolveUser = resolve))
+        }
+      }),
+      { clock, recordEvents: true }
+    )
+      .onTransition(state => states.push(toSnapshot(state)))
+      .start();
+
+    clock.increment(10);
+    service.send('FETCH');
+    clock.increment(100);
+    clock.increment(20);
+    resolveUser('David');
+
+    setTimeout(() => {
+      service.send(['RESET', 'FETCH']);
+      service.stop();
+      done(service.eventLog, states);
+    });
+  }
+
+  it('should reproduce the same sequence of states', done => {
+    record((eventLog, states) => {
+      const replayedStates: any[] = [];
+
+      interpret(fetchMachine, { clock: new SimulatedClock() })
+        .onTransition(state => replayedStates.push(toSnapshot(state)))
+        .replay(JSON.parse(JSON.stringify(eventLog)));
+
+      assert.deepEqual(replayedStates, states);
+      assert.deepEqual(replayedStates[replayedStates.length - 1], {
+        value: 'loading',
+        context: { user: 'David', retries: 1 }
+      });
+      done();
+    });
+  });
+
+  it('should set the clock to the time of each replayed event', done => {
+    record(eventLog => {
+      const clock = new SimulatedClock();
+      const times: number[] = [];
+      const service = interpret(fetchMachine, { clock }).onEvent(() =>
+        times.push(clock.now())
+      );
+
+      service.replay(eventLog);
+
+      assert.deepEqual(times, [0, 10, 110, 130, 130]);
+      done();
+    });
+  });
+
+  it('should not execute actions while replaying', done => {
+    record(eventLog => {
+      let notified = 0;
+      let fetched = 0;
+
+      const service = interpret(
+        fetchMachine.withConfig({
+          actions: { notify: () => notified++ },
+          services: {
+            fetchUser: () => {
+              fetched++;
+              return new Promise(() => void 0);
+            }
+          }
+        }),
+        { clock: new SimulatedClock() }
+      ).replay(eventLog);
+
+      assert.equal(notified, 0);
+      assert.equal(fetched, 0);
+
+      service.send(doneInvoke('fetchUser', 'Bob'));
+      service.send('RESET');
+      service.send('FETCH');
+      assert.equal(notified, 1);
+      assert.equal(fetched, 1);
+      done();
+    });
+  });
+
+  it('should not spawn actors while replaying', () => {
+    let started = 0;
+    const childMachine = Machine({
+      id: 'child',
+      initial: 'active',
+      states: {
+        active: { entry: () => started++ }
+      }
+    });
+    const parentMachine = Machine<{ child?: any }>({
+      id: 'parent',
+      initial: 'idle',
+      context: {},
+      states: {
+        idle: {
+          on: {
+            SPAWN: {
+              target: 'spawned',
+              actions: assign<{ child?: any }>({
+                child: () => spawn(childMachine)
+              })
+            }
+          }
+        },
+        spawned: {}
+      }
+    });
+
+    const service = interpret(parentMachine, {
+      clock: new SimulatedClock(),
+      recordEvents: true
+    }).start();
+    service.send('SPAWN');
+    service.stop();
+    assert.equal(started, 1);
+
+    const replayedService = interpret(parentMachine, {
+      clock: new SimulatedClock()
+    }).replay(service.eventLog);
+
+    assert.equal(started, 1);
+    assert.isTrue(replayedService.state.matches('spawned'));
+    assert.equal(replayedService.state.context.child.id, 'child');
+  });
+
+  it('should throw if the service does not have a SimulatedClock', () => {
+    assert.throws(() => {
+      interpret(fetchMachine).replay([]);
+    }, /SimulatedClock/);
+  });
+
+  it('should throw if the service has already been started', () => {
+    assert.throws(() => {
+      interpret(fetchMachine, { clock: new SimulatedClock() })
+        .start()
+        .replay([]);
+    }, /already been started/);
+  });
+});
@@ -0,0 +1,183 @@
+import { assert } from 'chai';
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { toMachine, createFileResolver } from '../src/scxml';
+import { interpret, Interpreter, SimulatedClock } from '../src/interpreter';
+
+/**
+ * The W3C SCXML IRP (Implementation Report Plan) tests for the ECMAScript data model.
+ * Each test document reaches the top-level final state "pass" if the test passes.
+ *
+ * @see https://www.w3.org/Voice/2013/scxml-irp/
+ */
+const W3C_TEST_DIR = path.resolve(__dirname, 'fixtures/scxml/w3c');
+
+/**
+ * The IDs of the W3C tests that xstate passes. A test that is not listed here is
+ * reported as pending with its outcome; a listed test that does not pass is a regression.
+ */
+const supportedTests: string[] = [
+  'test144',
+  'test147',
+  'test148',
+  'test149',
+  'test150',
+  'test151',
+  'test152',
+  'test153',
+  'test155',
+  'test158',
+  'test172',
+  'test173',
+  'test174',
+  'test175',
+  'test176',
+  'test185',
+  'test186',
+  'test187',
+  'test200',
+  'test205',
+  'test207',
+  'test208',
+  'test226',
+  'test229',
+  'test235',
+  'test237',
+  'test240',
+  'test241',
+  'test242',
+  'test243',
+  'test244',
+  'test252',
+  'test276',
+  'test287',
+  'test303',
+  'test309',
+  'test310',
+  'test312',
+  'test313',
+  'test314',
+  'test318',
+  'test321',
+  'test323',
+  'test324',
+  'test333',
+  'test335',
+  'test336',
+  'test337',
+  'test339',
+  'test342',
+  'test403a',
+  'test403b',
+  'test406',
+  'test407',
+  'test416',
+  'test417',
+  'test421',
+  'test423',
+  'test436',
+  'test451',
+  'test560',
+  'test570'
+];
+
+/**
+ * The maximum number of (simulated) timers that are fired while running a test.
+ */
+const MAX_TIMERS = 1000;
+
+type W3CTestOutcome = 'pass' | 'fail' | 'error' | 'incomplete';
+
+interface W3CTestResult {
+  outcome: W3CTestOutcome;
+  message?: string;
+}
+
+function getW3CTestIds(): string[] {
+  return fs
+    .readdirSync(W3C_TEST_DIR)
+    .map(file => /^(test\d+[a-z]?)\.txml\.scxml$/.exec(file))
+    .filter((match): match is RegExpExecArray => !!match)
+    .map(match => match[1])
+    .sort((a, b) => parseInt(a.slice(4), 10) - parseInt(b.slice(4), 10));
+}
+
+function nextMacrotask(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve));
+}
+
+/**
+ * Runs the W3C test document with a simulated clock until the service is done, or until
+ * there are no more timers to fire.
+ */
+async function runW3CTest(id: string): Promise<W3CTestResult> {
+  const clock = new SimulatedClock();
+  let service: Interpreter<any> | undefined;
+  let done = false;
+
+  try {
+    const machine = toMachine(
+      fs.readFileSync(path.join(W3C_TEST_DIR, `${id}.txml.scxml`), 'utf8'),
+      { resolveSrc: createFileResolver(W3C_TEST_DIR) }
+    );
+
+    service = interpret(machine, { clock, logger: () => void 0 })
+      .onDone(() => (done = true))
+      .start();
+
+    for (let timers = 0; !done && timers < MAX_TIMERS; timers++) {
+      // Let invoked services and deferred events settle before firing the next timer
+      await nextMacrotask();
+
+      if (!done && !clock.advanceToNextTimer()) {
+        break;
+      }
+    }
+  } catch (e) {
+    return { outcome: 'error', message: e.message };
+  } finally {
+    if (service && !done) {
+      service.stop();
+    }
+  }
+
+  if (!done) {
+    return {
+      outcome: 'incomplete',
+      message: `stopped in state ${JSON.stringify(service!.state.value)}`
+    };
+  }
+
+  return {
+    outcome: service!.state.matches('pass') ? 'pass' : 'fail'
+  };
+}
+
+function formatResult({ outcome, message }: W3CTestResult): string {
+  return message ? `${outcome}: ${message}` : outcome;
+}
+
+describe('scxml conformance (W3C IRP tests)', () => {
+  getW3CTestIds().forEach(id => {
+    const supported = supportedTests.indexOf(id) !== -1;
+
+    it(id, async function() {
+      const result = await runW3CTest(id);
+
+      if (supported) {
+        assert.equal(result.outcome, 'pass', formatResult(result));
+        return;
+      }
+
+      assert.notEqual(
+        result.outcome,
+        'pass',
+        `${id} passes, so it should be added to the supported tests`
+      );
+
+      this.test!.title = `${id} (${formatResult(result)})`;
+      this.skip();
+    });
+  });
+});
@@ -1,14 +1,27 @@
 import { assert } from 'chai';
-// import { Element as XMLElement } from 'xml-js';
+import { xml2js, Element as XMLElement } from 'xml-js';
 
 import * as fs from 'fs';
 import * as path from 'path';
 // import * as util from 'util';
 
-import { toMachine } from '../src/scxml';
+import {
+  toMachine,
+  fromMachine,
+  createFileResolver,
+  createVMSandbox
+} from '../src/scxml';
 import { StateNode } from '../src/StateNode';
 import { interpret, SimulatedClock } from '../src/interpreter';
-import { State } from '../src';
+import {
+  State,
+  Machine,
+  EventObject,
+  assign,
+  send,
+  sendParent,
+  actions
+} from '../src';
 import { pathsToStateValue } from '../src/utils';
 // import { StateValue } from '../src/types';
 // import { Event, StateValue, ActionObject } from '../src/types';
@@ -85,7 +98,7 @@ interface SCIONTest {
 
 async function runW3TestToCompletion(machine: StateNode): Promise<void> {
   await new Promise(res => {
-    interpret(machine)
+    interpret(machine, { logger: () => void 0 })
       .onDone(res)
       .start();
   });
@@ -106,7 +119,8 @@ async function runTestToCompletion(
   );
   let nextState: State<any> = machine.getInitialState(resolvedStateValue);
   const service = interpret(machine, {
-    clock: new SimulatedClock()
+    clock: new SimulatedClock(),
+    logger: () => void 0
   })
     .onTransition(state => {
       // @ts-ignore
@@ -169,10 +183,7 @@ describe('scxml', () => {
       ) as SCIONTest;
 
       it(`${testGroupName}/${testName}`, async () => {
-        const machine = toMachine(scxmlDefinition, {
-          evalCond,
-          delimiter: '$'
-        });
+        const machine = toMachine(scxmlDefinition, { delimiter: '$' });
 
         // console.dir(machine.config, { depth: null });
         await runTestToCompletion(machine, scxmlTest);
@@ -180,3 +191,1055 @@ describe('scxml', () => {
     });
   });
 });
+
+describe('scxml import', () => {
+  function scxml(content: string, datamodel: string = '') {
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<scxml xmlns="http://www.w3.org/2005/07/scxml" initial="a" version="1.0" datamodel="ecmascript">
+  ${datamodel ? `<datamodel>${datamodel}</datamodel>` : ''}
+  <state id="a">
+    ${content}
+  </state>
+  <state id="b" />
+</scxml>`;
+  }
+
+  function start(xml: string, logs: any[][] = []) {
+    const machine = toMachine(xml, { delimiter: '$' });
+
+    return interpret(machine, {
+      logger: (...args: any[]) => logs.push(args)
+    }).start();
+  }
+
+  it('should import <if>, <elseif> and <else> as conditional actions', () => {
+    const service = start(
+      scxml(
+        `
+        <transition event="CHECK">
+          <if cond="x &gt; 10">
+            <assign location="result" expr="'large'" />
+          <elseif cond="x &gt; 5" />
+            <assign location="result" expr="'medium'" />
+          <else />
+            <assign location="result" expr="'small'" />
+          </if>
+        </transition>
+        <transition event="SET">
+          <assign location="x" expr="_event.data.x" />
+        </transition>`,
+        `<data id="x" expr="0" /><data id="result" />`
+      )
+    );
+
+    service.send('CHECK');
+    assert.equal(service.state.context!.result, 'small');
+
+    service.send({ type: 'SET', x: 7 });
+    service.send('CHECK');
+    assert.equal(service.state.context!.result, 'medium');
+
+    service.send({ type: 'SET', x: 11 });
+    service.send('CHECK');
+    assert.equal(service.state.context!.result, 'large');
+  });
+
+  it('should import <foreach> as actions executed for each item', () => {
+    const service = start(
+      scxml(
+        `<transition event="SUM">
+          <assign location="sum" expr="0" />
+          <foreach array="[1, 2, 3]" item="item" index="index">
+            <assign location="sum" expr="sum + item * (index + 1)" />
+          </foreach>
+        </transition>`,
+        `<data id="sum" /><data id="item" /><data id="index" />`
+      )
+    );
+
+    service.send('SUM');
+
+    assert.deepEqual(service.state.context, { sum: 14, item: 3, index: 2 });
+  });
+
+  it('should raise error.execution when the <foreach> array is not an array', () => {
+    const service = start(
+      scxml(
+        `<transition event="SUM">
+          <foreach array="sum" item="item">
+            <assign location="sum" expr="sum + item" />
+          </foreach>
+        </transition>
+        <transition event="error.execution" target="b" />`,
+        `<data id="sum" expr="0" /><data id="item" />`
+      )
+    );
+
+    assert.doesNotThrow(() => service.send('SUM'));
+    assert.equal(service.state.value, 'b');
+    assert.deepEqual(service.state.context, { sum: 0, item: undefined });
+  });
+
+  it('should evaluate <if> conditions after the preceding executable content', () => {
+    const service = start(
+      scxml(
+        `<transition event="CHECK">
+          <assign location="x" expr="1" />
+          <if cond="x === 1">
+            <assign location="result" expr="'if'" />
+          <else />
+            <assign location="result" expr="'else'" />
+          </if>
+        </transition>`,
+        `<data id="x" expr="0" /><data id="result" />`
+      )
+    );
+
+    service.send('CHECK');
+
+    assert.equal(service.state.context!.result, 'if');
+  });
+
+  it('should evaluate <if> conditions within <foreach> with the current item', () => {
+    const service = start(
+      scxml(
+        `<transition event="FILTER">
+          <foreach array="[1, 2, 3]" item="item">
+            <if cond="item &gt; 1">
+              <assign location="large" expr="large.concat(item)" />
+            </if>
+          </foreach>
+        </transition>`,
+        `<data id="large" expr="[]" />`
+      )
+    );
+
+    service.send('FILTER');
+
+    assert.deepEqual(service.state.context!.large, [2, 3]);
+  });
+
+  it('should import <log> with its label and expression', () => {
+    const logs: any[][] = [];
+    const service = start(
+      scxml(`
+        <transition event="LOG">
+          <log label="event" expr="'received ' + _event.name" />
+          <log expr="1 + 1" />
+        </transition>`),
+      logs
+    );
+
+    service.send('LOG');
+
+    assert.deepEqual(logs, [['event', 'received LOG'], [2]]);
+  });
+
+  it('should import <cancel> to cancel delayed sends', () => {
+    const machine = toMachine(
+      scxml(`
+        <onentry>
+          <send event="TIMEOUT" id="timer" delay="100ms" />
+        </onentry>
+        <transition event="STOP">
+          <cancel sendid="timer" />
+        </transition>
+        <transition event="TIMEOUT" target="b" />`),
+      { delimiter: '$' }
+    );
+    const clock = new SimulatedClock();
+    const service = interpret(machine, { clock }).start();
+
+    service.send('STOP');
+    clock.increment(100);
+
+    assert.isTrue(service.state.matches('a'));
+  });
+
+  it('should import <send> with its params, namelist and content as the event data', () => {
+    const service = start(
+      scxml(
+        `<onentry>
+          <send event="PARAMS" namelist="count">
+            <param name="label" expr="'count'" />
+          </send>
+          <send eventexpr="'CON' + 'TENT'">
+            <content expr="[count, count + 1]" />
+          </send>
+        </onentry>
+        <transition event="PARAMS">
+          <assign location="params" expr="_event.data" />
+        </transition>
+        <transition event="CONTENT">
+          <assign location="content" expr="_event.data" />
+        </transition>`,
+        `<data id="count" expr="1" /><data id="params" /><data id="content" />`
+      )
+    );
+
+    assert.deepEqual(service.state.context!.params, {
+      count: 1,
+      label: 'count'
+    });
+    assert.deepEqual(service.state.context!.content, [1, 2]);
+  });
+
+  it('should import <send> with delays in seconds and delay and target expressions', () => {
+    const machine = toMachine(
+      scxml(
+        `<onentry>
+          <send event="SHORT" delay="0.5s" />
+          <send event="LONG" delayexpr="delay" targetexpr="'#_internal'" />
+        </onentry>
+        <transition event="SHORT">
+          <assign location="received" expr="received.concat(_event.name)" />
+        </transition>
+        <transition event="LONG" target="b" />`,
+        `<data id="delay" expr="'2s'" /><data id="received" expr="[]" />`
+      ),
+      { delimiter: '$' }
+    );
+    const clock = new SimulatedClock();
+    const service = interpret(machine, { clock }).start();
+
+    clock.increment(500);
+    assert.deepEqual(service.state.context!.received, ['SHORT']);
+
+    clock.increment(1000);
+    assert.isTrue(service.state.matches('a'));
+
+    clock.increment(500);
+    assert.isTrue(service.state.matches('b'));
+  });
+
+  it('should import <script> to update the data model', () => {
+    const service = start(
+      scxml(
+        `<transition event="RUN">
+          <script>
+            count = count * 2;
+            label = 'count is ' + count;
+          </script>
+        </transition>`,
+        `<data id="count" expr="2" /><data id="label" />`
+      )
+    );
+
+    service.send('RUN');
+
+    assert.equal(service.state.context!.count, 4);
+    assert.equal(service.state.context!.label, 'count is 4');
+  });
+
+  it('should import <invoke> with inline <content> as an invoked machine', () => {
+    const service = start(
+      scxml(
+        `<invoke id="child">
+          <param name="start" expr="count" />
+          <content>
+            <scxml initial="active" version="1.0" datamodel="ecmascript">
+              <datamodel><data id="start" expr="0" /></datamodel>
+              <state id="active">
+                <onentry><send target="#_parent" event="STARTED" /></onentry>
+                <transition event="FINISH" target="done" />
+              </state>
+              <final id="done">
+                <donedata><param name="total" expr="start * 2" /></donedata>
+              </final>
+            </scxml>
+          </content>
+        </invoke>
+        <transition event="STARTED">
+          <assign location="started" expr="true" />
+        </transition>
+        <transition event="FINISH">
+          <send target="#_child" event="FINISH" />
+        </transition>
+        <transition event="done.invoke.child" target="b">
+          <assign location="result" expr="_event.data.total" />
+        </transition>`,
+        `<data id="count" expr="5" /><data id="started" /><data id="result" />`
+      )
+    );
+
+    assert.isTrue(service.state.context!.started);
+
+    service.send('FINISH');
+
+    assert.isTrue(service.state.matches('b'));
+    assert.equal(service.state.context!.result, 10);
+  });
+
+  it('should import <invoke> with a src resolved by the resolveSrc option', () => {
+    const resolved: string[] = [];
+    const resolver = createFileResolver(
+      path.resolve(__dirname, 'fixtures/scxml/invoke')
+    );
+    const machine = toMachine(
+      scxml(
+        `<invoke id="child" src="file:child.scxml" autoforward="true" />
+        <transition event="done.invoke.child" target="b">
+          <assign location="result" expr="_event.data" />
+        </transition>`,
+        `<data id="result" />`
+      ),
+      {
+        resolveSrc: src => {
+          resolved.push(src);
+          return resolver(src);
+        }
+      }
+    );
+    const service = interpret(machine).start();
+
+    service.send('FINISH');
+
+    assert.deepEqual(resolved, ['file:child.scxml']);
+    assert.isTrue(service.state.matches('b'));
+    assert.equal(service.state.context!.result, 'finished');
+  });
+
+  it('should import <donedata> as the data of the done event of final states', () => {
+    const machine = toMachine(
+      scxml(
+        `<transition event="FINISH" target="done">
+          <assign location="count" expr="3" />
+        </transition>`,
+        `<data id="count" />`
+      ).replace(
+        '<state id="b" />',
+        `<final id="done">
+          <donedata>
+            <param name="count" location="count" />
+            <param name="event" expr="_event.name" />
+          </donedata>
+        </final>`
+      )
+    );
+    let doneData: any;
+
+    interpret(machine)
+      .onDone(event => (doneData = event.data))
+      .start()
+      .send('FINISH');
+
+    assert.deepEqual(doneData, { count: 3, event: 'FINISH' });
+  });
+
+  it('should report unsupported invoke types and elements with their line', () => {
+    assert.throws(
+      () =>
+        toMachine(
+          scxml(`<invoke type="http://www.w3.org/TR/ccxml/" src="a.ccxml" />`)
+        ),
+      /The invoke type "http:\/\/www\.w3\.org\/TR\/ccxml\/" is not supported\. \(line 5/
+    );
+    assert.throws(
+      () => toMachine(scxml(`<invoke><finalize /></invoke>`)),
+      /The <finalize> element is not supported in <invoke> elements\. \(line 5/
+    );
+  });
+
+  it('should report unsupported send types and invalid delays with their line', () => {
+    assert.throws(
+      () =>
+        toMachine(
+          scxml(
+            `<onentry><send type="http://www.w3.org/TR/scxml/#BasicHTTPEventProcessor" event="E" /></onentry>`
+          )
+        ),
+      /The send type "http:\/\/www\.w3\.org\/TR\/scxml\/#BasicHTTPEventProcessor" is not supported\. \(line 5/
+    );
+    assert.throws(
+      () =>
+        toMachine(scxml(`<onentry><send event="E" delay="soon" /></onentry>`)),
+      /The delay "soon" of the <send> element is not a valid time value \(e\.g\., "500ms" or "1\.5s"\)\. \(line 5/
+    );
+  });
+
+  it('should report unsupported executable content with its line', () => {
+    assert.throws(
+      () =>
+        toMachine(
+          scxml(`<transition event="E">
+      <unknown />
+    </transition>`)
+        ),
+      'The <unknown> element is not supported executable content. (line 6: <unknown />)'
+    );
+  });
+
+  it('should report unsupported attributes and missing attributes with their line', () => {
+    assert.throws(
+      () => toMachine(scxml(`<onentry><cancel sendidexpr="id" /></onentry>`)),
+      'The "sendidexpr" attribute of the <cancel> element is not supported. (line 5: <onentry><cancel sendidexpr="id" /></onentry>)'
+    );
+    assert.throws(
+      () => toMachine(scxml(`<onentry><raise /></onentry>`)),
+      /The <raise> element requires the "event" attribute\. \(line 5/
+    );
+  });
+
+  describe('ECMAScript data model', () => {
+    it('should evaluate the data model in document order', () => {
+      const machine = toMachine(
+        scxml(
+          '',
+          `<data id="count" expr="1 + 2" />
+          <data id="doubled" expr="count * 2" />
+          <data id="config">{ "enabled": true }</data>
+          <data id="empty" />`
+        )
+      );
+
+      assert.deepEqual(machine.context, {
+        count: 3,
+        doubled: 6,
+        config: { enabled: true },
+        empty: undefined
+      });
+    });
+
+    it('should provide the _event, _name and _sessionid system variables', () => {
+      const service = start(
+        scxml(
+          `<transition event="CHECK">
+            <assign location="eventName" expr="_event.name" />
+            <assign location="value" expr="_event.data.value" />
+            <assign location="name" expr="_name" />
+            <assign location="sessionId" expr="_sessionid" />
+          </transition>`,
+          `<data id="eventName" /><data id="value" /><data id="name" /><data id="sessionId" />`
+        ).replace('<scxml ', '<scxml name="test" ')
+      );
+
+      service.send({ type: 'CHECK', value: 42 });
+      const { eventName, value, name, sessionId } = service.state.context!;
+
+      assert.equal(eventName, 'CHECK');
+      assert.equal(value, 42);
+      assert.equal(name, 'test');
+      assert.isString(sessionId);
+    });
+
+    it('should evaluate conditions with the In() predicate', () => {
+      const service = start(`<?xml version="1.0" encoding="UTF-8"?>
+<scxml xmlns="http://www.w3.org/2005/07/scxml" initial="p" version="1.0" datamodel="ecmascript">
+  <parallel id="p">
+    <state id="light" initial="off">
+      <state id="off"><transition event="TOGGLE" target="on" /></state>
+      <state id="on"><transition event="TOGGLE" target="off" /></state>
+    </state>
+    <state id="door" initial="closed">
+      <state id="closed">
+        <transition event="OPEN" cond="In('on')" target="opened" />
+      </state>
+      <state id="opened" />
+    </state>
+  </parallel>
+</scxml>`);
+
+      service.send('OPEN');
+      assert.isTrue(service.state.matches({ p: { door: 'closed' } }));
+
+      service.send('TOGGLE');
+      service.send('OPEN');
+      assert.isTrue(service.state.matches({ p: { door: 'opened' } }));
+    });
+
+    it('should run expressions and scripts in a sandbox without access to the host', () => {
+      const service = start(
+        scxml(
+          `<transition event="CHECK">
+            <assign location="result" expr="typeof process + ', ' + typeof require" />
+          </transition>`,
+          `<data id="result" />`
+        )
+      );
+
+      service.send('CHECK');
+
+      assert.equal(service.state.context!.result, 'undefined, undefined');
+    });
+
+    it('should run expressions with the globals and timeout of the VM sandbox', () => {
+      const machine = toMachine(
+        scxml(
+          `<transition event="GREET">
+            <assign location="greeting" expr="greet('world')" />
+          </transition>
+          <transition event="LOOP">
+            <script>while (true) {}</script>
+          </transition>
+          <transition event="error.execution">
+            <assign location="error" expr="_event.data.message" />
+          </transition>`,
+          `<data id="greeting" /><data id="error" />`
+        ),
+        {
+          sandbox: createVMSandbox({
+            globals: { greet: (name: string) => `Hello, ${name}!` },
+            timeout: 20
+          })
+        }
+      );
+      const service = interpret(machine).start();
+
+      service.send('GREET');
+      assert.equal(service.state.context!.greeting, 'Hello, world!');
+
+      service.send('LOOP');
+      assert.match(service.state.context!.error, /timed out/);
+    });
+
+    it('should reuse the context of the VM sandbox without leaking the scope or declarations of each run', () => {
+      const sandbox = createVMSandbox({ globals: { x: 'global' } });
+      const scope = { x: 1, y: 2 };
+
+      assert.equal(
+        sandbox.run('var declared = x + y; function f() {} x = 10;', scope),
+        10
+      );
+
+      assert.deepEqual(scope, { x: 10, y: 2 });
+      assert.equal(
+        sandbox.run('[typeof declared, typeof f, x, typeof y].join(", ")', {}),
+        'undefined, undefined, global, undefined'
+      );
+    });
+
+    it('should raise error.execution and stop the block when evaluating executable content throws', () => {
+      const service = start(
+        scxml(
+          `<transition event="ASSIGN">
+            <assign location="x" expr="undefined.foo" />
+            <assign location="x" expr="1" />
+          </transition>
+          <transition event="SEND">
+            <send eventexpr="undefined.foo" />
+          </transition>
+          <transition event="error.execution">
+            <assign location="errors" expr="errors + 1" />
+          </transition>
+          <transition event="CHECK" cond="undefined.foo" target="b" />`,
+          `<data id="x" expr="0" /><data id="errors" expr="0" />`
+        )
+      );
+
+      assert.doesNotThrow(() => service.send('ASSIGN'));
+      assert.deepEqual(service.state.context, { x: 0, errors: 1 });
+
+      assert.doesNotThrow(() => service.send('SEND'));
+      assert.deepEqual(service.state.context, { x: 0, errors: 2 });
+
+      assert.doesNotThrow(() => service.send('CHECK'));
+      assert.equal(service.state.value, 'a');
+    });
+
+    it('should use the evalCond option instead of the data model for conditions', () => {
+      const conds: string[] = [];
+      const machine = toMachine(
+        scxml(
+          `<transition event="NEXT" cond="x === 1" target="b" />`,
+          `<data id="x" expr="1" />`
+        ),
+        {
+          evalCond: (expr, extState) => {
+            conds.push(expr);
+            return evalCond(expr, extState);
+          }
+        }
+      );
+
+      assert.deepEqual(conds, ['x === 1']);
+      assert.isTrue(machine.transition('a', 'NEXT').matches('b'));
+    });
+  });
+});
+
+describe('scxml export', () => {
+  function findElements(
+    element: XMLElement,
+    predicate: (el: XMLElement) => boolean
+  ): XMLElement[] {
+    return (element.elements || []).reduce(
+      (found, child) =>
+        found.concat(
+          predicate(child) ? [child] : [],
+          findElements(child, predicate)
+        ),
+      [] as XMLElement[]
+    );
+  }
+
+  function findById(element: XMLElement, id: string): XMLElement {
+    return findElements(
+      element,
+      el => !!el.attributes && el.attributes.id === id
+    )[0];
+  }
+
+  function childNames(element: XMLElement): string[] {
+    return (element.elements || []).map(child => child.name!);
+  }
+
+  /**
+   * Evaluates an exported ECMAScript expression with the given data model and `_event`.
+   */
+  function evaluate(
+    expr: string,
+    datamodel: Record<string, any>,
+    _event: { name: string; data?: any } = { name: 'TEST' }
+  ) {
+    const fn = new Function(
+      ...Object.keys(datamodel),
+      '_event',
+      `return ${expr};`
+    );
+
+    return fn(...Object.keys(datamodel).map(key => datamodel[key]), _event);
+  }
+
+  const lightMachine = Machine<{ count: number }>(
+    {
+      id: 'light',
+      initial: 'green',
+      context: { count: 0 },
+      on: { RESET: '.green' },
+      states: {
+        green: {
+          entry: 'notify',
+          after: { 1000: 'yellow' },
+          on: {
+            INC: {
+              actions: assign<{ count: number }>({
+                count: (ctx, e) => ctx.count + e.by
+              }),
+              cond: ctx => ctx.count < 10
+            }
+          }
+        },
+        yellow: {
+          on: {
+            NEXT: [
+              { target: 'red', cond: 'isBusy' },
+              { target: '#light.green', in: '#light.yellow' }
+            ]
+          }
+        },
+        red: {
+          initial: 'walk',
+          states: {
+            walk: { on: { STOP: 'stop' } },
+            stop: { type: 'final', data: { total: ctx => ctx.count } },
+            hist: { history: 'deep', target: 'stop' } as any
+          },
+          onDone: 'green'
+        }
+      }
+    },
+    {
+      actions: { notify: () => void 0 },
+      guards: { isBusy: ctx => ctx.count > 5 }
+    }
+  );
+
+  const lightDocument = xml2js(fromMachine(lightMachine)) as XMLElement;
+  const scxmlElement = lightDocument.elements![0];
+
+  it('should export the machine as a state in an SCXML document', () => {
+    assert.equal(scxmlElement.name, 'scxml');
+    assert.deepEqual(scxmlElement.attributes, {
+      xmlns: 'http://www.w3.org/2005/07/scxml',
+      version: '1.0',
+      datamodel: 'ecmascript',
+      name: 'light',
+      initial: 'light'
+    });
+    assert.deepEqual(childNames(scxmlElement), ['datamodel', 'state']);
+    assert.deepEqual(findById(scxmlElement, 'light').attributes, {
+      id: 'light',
+      initial: 'light.green'
+    });
+  });
+
+  it('should export the context as the data model', () => {
+    const [datamodel] = scxmlElement.elements!;
+
+    assert.deepEqual(datamodel.elements!.map(data => data.attributes), [
+      { id: 'count', expr: '0' }
+    ]);
+  });
+
+  it('should export delayed transitions as delayed sends and cancels', () => {
+    const green = findById(scxmlElement, 'light.green');
+    const [onentry, onexit] = green.elements!;
+    const afterEvent = 'xstate.after(1000)#light.green';
+
+    assert.deepEqual(onentry.elements![1].attributes, {
+      event: afterEvent,
+      delay: '1000ms',
+      id: afterEvent
+    });
+    assert.deepEqual(onexit.elements![0], {
+      type: 'element',
+      name: 'cancel',
+      attributes: { sendid: afterEvent }
+    });
+    assert.deepEqual(
+      findElements(
+        green,
+        el => !!el.attributes && el.attributes.event === afterEvent
+      ).map(el => el.name),
+      ['send', 'transition']
+    );
+  });
+
+  it('should export named actions as scripts that call them by name', () => {
+    const [onentry] = findById(scxmlElement, 'light.green').elements!;
+    const [script] = onentry.elements!;
+
+    assert.equal(script.name, 'script');
+    assert.equal(
+      script.elements![0].text,
+      'notify({ count: count }, Object.assign({ type: _event.name }, _event.data));'
+    );
+  });
+
+  it('should export inline actions as scripts that call their source', () => {
+    const machine = Machine({
+      id: 'inline',
+      initial: 'active',
+      states: {
+        active: { entry: () => 'inline action' }
+      }
+    });
+    const [onentry] = findById(
+      (xml2js(fromMachine(machine)) as XMLElement).elements![0],
+      'inline.active'
+    ).elements!;
+
+    assert.include(
+      onentry.elements![0].elements![0].text as string,
+      'inline action'
+    );
+  });
+
+  it('should export guards and assignments as expressions over the data model', () => {
+    const [incTransition] = findElements(
+      findById(scxmlElement, 'light.green'),
+      el => el.name === 'transition' && el.attributes!.event === 'INC'
+    );
+    const [assignElement] = incTransition.elements!;
+    const incEvent = { name: 'INC', data: { by: 2 } };
+
+    assert.isTrue(
+      evaluate(incTransition.attributes!.cond as string, { count: 3 })
+    );
+    assert.isFalse(
+      evaluate(incTransition.attributes!.cond as string, { count: 10 })
+    );
+    assert.equal(assignElement.attributes!.location, 'count');
+    assert.equal(
+      evaluate(
+        assignElement.attributes!.expr as string,
+        { count: 3 },
+        incEvent
+      ),
+      5
+    );
+  });
+
+  it('should resolve relative, internal and ID transition targets', () => {
+    const transitions = findElements(
+      scxmlElement,
+      el => el.name === 'transition' && !!el.attributes
+    );
+    const targetOf = (event: string) =>
+      transitions
+        .filter(el => el.attributes!.event === event)
+        .map(el => el.attributes!.target);
+
+    assert.deepEqual(targetOf('RESET'), ['light.green']);
+    assert.equal(
+      transitions.find(el => el.attributes!.event === 'RESET')!.attributes!
+        .type,
+      'internal'
+    );
+    assert.deepEqual(targetOf('NEXT'), ['light.red', 'light.green']);
+    assert.deepEqual(targetOf('STOP'), ['light.red.stop']);
+    assert.deepEqual(targetOf('done.state.light.red'), ['light.green']);
+  });
+
+  it('should export named guards as calls by name and "in state" guards with In()', () => {
+    const [busyTransition, inTransition] = findElements(
+      scxmlElement,
+      el => el.name === 'transition' && el.attributes!.event === 'NEXT'
+    );
+    const isBusy = (ctx: { count: number }) => ctx.count > 5;
+
+    assert.isTrue(
+      evaluate(busyTransition.attributes!.cond as string, { count: 6, isBusy })
+    );
+    assert.isFalse(
+      evaluate(busyTransition.attributes!.cond as string, { count: 5, isBusy })
+    );
+    assert.equal(inTransition.attributes!.cond, "In('light.yellow')");
+  });
+
+  it('should export history and final states', () => {
+    const hist = findById(scxmlElement, 'light.red.hist');
+    const stop = findById(scxmlElement, 'light.red.stop');
+    const [donedata] = stop.elements!;
+
+    assert.equal(hist.name, 'history');
+    assert.equal(hist.attributes!.type, 'deep');
+    assert.equal(hist.elements![0].attributes!.target, 'light.red.stop');
+
+    assert.equal(stop.name, 'final');
+    assert.equal(donedata.name, 'donedata');
+    assert.equal(donedata.elements![0].attributes!.name, 'total');
+    assert.equal(
+      evaluate(donedata.elements![0].attributes!.expr as string, { count: 7 }),
+      7
+    );
+  });
+
+  it('should export invoked machines and services', () => {
+    const childMachine = Machine({
+      id: 'child',
+      initial: 'active',
+      states: {
+        active: { on: { PING: { actions: sendParent('PONG') } } }
+      }
+    });
+    const parentMachine = Machine(
+      {
+        id: 'parent',
+        initial: 'active',
+        states: {
+          active: {
+            invoke: [
+              { id: 'child', src: childMachine, forward: true },
+              { id: 'fetch', src: 'fetchUser', data: { userId: 42 } }
+            ],
+            entry: send(
+              { type: 'PING', value: 'test' },
+              { to: 'child', delay: 'SHORT' }
+            )
+          }
+        }
+      },
+      {
+        services: { fetchUser: () => Promise.resolve() },
+        delays: { SHORT: 10 }
+      }
+    );
+    const parentElement = (xml2js(fromMachine(parentMachine)) as XMLElement)
+      .elements![0];
+    const [childInvoke, fetchInvoke] = findElements(
+      parentElement,
+      el => el.name === 'invoke'
+    );
+    const childSCXML = childInvoke.elements![0].elements![0];
+
+    assert.deepEqual(childInvoke.attributes, {
+      id: 'child',
+      type: 'http://www.w3.org/TR/scxml/',
+      autoforward: 'true'
+    });
+    assert.equal(childSCXML.name, 'scxml');
+    assert.equal(childSCXML.attributes!.name, 'child');
+    assert.deepEqual(
+      findElements(childSCXML, el => el.name === 'send')[0].attributes,
+      { event: 'PONG', target: '#_parent', id: 'PONG' }
+    );
+
+    assert.deepEqual(fetchInvoke.attributes, { id: 'fetch', src: 'fetchUser' });
+    assert.deepEqual(fetchInvoke.elements![0].attributes, {
+      name: 'userId',
+      expr: '42'
+    });
+
+    const [pingSend] = findElements(
+      findById(parentElement, 'parent.active'),
+      el => el.name === 'send' && el.attributes!.event === 'PING'
+    );
+
+    assert.deepEqual(pingSend.attributes, {
+      event: 'PING',
+      target: '#_child',
+      delay: '10ms',
+      id: 'PING'
+    });
+    assert.deepEqual(pingSend.elements![0].attributes, {
+      name: 'value',
+      expr: '"test"'
+    });
+  });
+
+  it('should round-trip machines through SCXML', () => {
+    interface CounterContext {
+      count: number;
+    }
+
+    const counterMachine = Machine<CounterContext>(
+      {
+        id: 'counter',
+        initial: 'active',
+        context: { count: 0 },
+        states: {
+          active: {
+            initial: 'idle',
+            states: {
+              idle: {
+                on: {
+                  INC: {
+                    target: 'incremented',
+                    actions: assign<CounterContext>({
+                      count: (ctx, e) => ctx.count + e.by
+                    })
+                  }
+                }
+              },
+              incremented: {
+                entry: send(
+                  { type: 'INC', by: 10 },
+                  { delay: 100, id: 'timer' }
+                ),
+                on: { INC: { actions: 'increment' } },
+                after: { 500: 'idle' }
+              }
+            },
+            on: { DONE: { target: 'done', cond: 'isLarge' } }
+          },
+          done: { entry: 'notify' }
+        }
+      },
+      {
+        actions: {
+          increment: assign<CounterContext>({
+            count: (ctx, e) => ctx.count + e.by
+          }),
+          notify: () => void 0
+        },
+        guards: { isLarge: ctx => ctx.count > 10 }
+      }
+    );
+
+    const importedMachine = toMachine(fromMachine(counterMachine), {
+      sandbox: createVMSandbox({
+        globals: {
+          isLarge: (ctx: CounterContext) => ctx.count > 10,
+          notify: () => void 0
+        }
+      })
+    });
+
+    const originalClock = new SimulatedClock();
+    const importedClock = new SimulatedClock();
+    const original = interpret(counterMachine, {
+      clock: originalClock
+    }).start();
+    const imported = interpret(importedMachine, {
+      clock: importedClock
+    }).start();
+
+    [original, imported].forEach(service => {
+      service.send('DONE');
+      service.send({ type: 'INC', by: 2 });
+    });
+    originalClock.increment(100);
+    importedClock.increment(100);
+
+    assert.deepEqual(original.state.context, { count: 12 });
+    assert.deepEqual(imported.state.context, original.state.context);
+    assert.deepEqual(original.state.value, { active: 'incremented' });
+    assert.deepEqual(imported.state.value, original.state.value);
+
+    originalClock.increment(400);
+    importedClock.increment(400);
+
+    assert.deepEqual(original.state.value, { active: 'idle' });
+    assert.deepEqual(imported.state.value, original.state.value);
+
+    original.send('DONE');
+    imported.send('DONE');
+
+    assert.equal(original.state.value, 'done');
+    assert.equal(imported.state.value, original.state.value);
+  });
+
+  it('should round-trip internal transitions and final state actions', () => {
+    const machine = Machine<{ entered: number; finished: number }>({
+      id: 'internal',
+      initial: 'active',
+      context: { entered: 0, finished: 0 },
+      states: {
+        active: {
+          entry: assign({ entered: ctx => ctx.entered + 1 }),
+          initial: 'x1',
+          states: { x1: {}, x2: {} },
+          on: {
+            NEXT: { target: '.x2', internal: true },
+            FINISH: 'finished'
+          }
+        },
+        finished: {
+          type: 'final',
+          entry: assign({ finished: ctx => ctx.finished + 1 })
+        }
+      }
+    });
+    const importedMachine = toMachine(fromMachine(machine));
+
+    [machine, importedMachine].forEach(m => {
+      const service = interpret(m).start();
+
+      service.send('NEXT');
+      assert.deepEqual(service.state.value, { active: 'x2' });
+      assert.deepEqual(service.state.context, { entered: 1, finished: 0 });
+
+      service.send('FINISH');
+      assert.equal(service.state.value, 'finished');
+      assert.deepEqual(service.state.context, { entered: 1, finished: 1 });
+    });
+  });
+
+  it('should export raise, log and choose actions', () => {
+    const machine = Machine<{ count: number }>({
+      id: 'actions',
+      initial: 'active',
+      context: { count: 0 },
+      states: {
+        active: {
+          entry: [
+            actions.raise('EVENT'),
+            actions.log((ctx: { count: number }) => ctx.count, 'count'),
+            actions.choose<{ count: number }, EventObject>([
+              {
+                cond: ctx => ctx.count > 0,
+                actions: actions.raise('POSITIVE')
+              },
+              { actions: actions.raise('OTHER') }
+            ])
+          ]
+        }
+      }
+    });
+    const [onentry] = findById(
+      (xml2js(fromMachine(machine)) as XMLElement).elements![0],
+      'actions.active'
+    ).elements!;
+    const [raiseElement, logElement, ifElement] = onentry.elements!;
+
+    assert.deepEqual(raiseElement.attributes, { event: 'EVENT' });
+    assert.equal(logElement.attributes!.label, 'count');
+    assert.equal(
+      evaluate(logElement.attributes!.expr as string, { count: 3 }),
+      3
+    );
+    assert.deepEqual(childNames(ifElement), ['raise', 'else', 'raise']);
+    assert.isTrue(evaluate(ifElement.attributes!.cond as string, { count: 1 }));
+  });
+});
@@ -0,0 +1,402 @@
+import { assert } from 'chai';
+import {
+  Machine,
+  interpret,
+  assign,
+  send,
+  sendParent,
+  spawn,
+  ActorRef,
+  State,
+  EventObject,
+  Subscribable
+} from '../src';
+
+interface CounterContext {
+  count: number;
+}
+
+const counterMachine = Machine<CounterContext>({
+  id: 'counter',
+  initial: 'active',
+  context: { count: 0 },
+  states: {
+    active: {
+      on: {
+        INC: { actions: assign({ count: ctx => ctx.count + 1 }) },
+        PING: { actions: sendParent('PONG') }
+      }
+    }
+  }
+});
+
+interface ParentContext {
+  counterRef?: ActorRef<any, State<CounterContext>>;
+  pongs: number;
+}
+
+const parentMachine = Machine<ParentContext>({
+  id: 'parent',
+  initial: 'active',
+  context: { counterRef: undefined, pongs: 0 },
+  states: {
+    active: {
+      entry: assign<ParentContext>({
+        counterRef: () => spawn(counterMachine, 'counter')
+      }),
+      on: {
+        INC: { actions: send('INC', { to: ctx => ctx.counterRef! }) },
+        PING: { actions: send('PING', { to: ctx => ctx.counterRef! }) },
+        PONG: { actions: assign({ pongs: ctx => ctx.pongs + 1 }) }
+      }
+    }
+  }
+});
+
+describe('spawn', () => {
+  it('should return an actor reference that can be stored in context', () => {
+    const service = interpret(parentMachine).start();
+    const { counterRef } = service.state.context;
+
+    assert.isDefined(counterRef);
+    assert.equal(counterRef!.id, 'counter');
+    assert.deepEqual(counterRef!.state!.context, { count: 0 });
+  });
+
+  it('should accept actor references as the target of send actions', () => {
+    const service = interpret(parentMachine).start();
+
+    service.send('INC');
+    service.send('INC');
+
+    assert.equal(service.state.context.counterRef!.state!.context.count, 2);
+  });
+
+  it('should keep actor references across assign actions', () => {
+    const service = interpret(parentMachine).start();
+    const { counterRef } = service.state.context;
+
+    service.send('PING');
+
+    assert.equal(service.state.context.pongs, 1);
+    assert.strictEqual(service.state.context.counterRef, counterRef);
+  });
+
+  it('should be sent events directly', () => {
+    const service = interpret(parentMachine).start();
+    const { counterRef } = service.state.context;
+
+    counterRef!.send('INC');
+
+    assert.equal(counterRef!.state!.context.count, 1);
+  });
+
+  it('should serialize actor references as their ID', () => {
+    const service = interpret(parentMachine).start();
+
+    assert.deepEqual(JSON.parse(JSON.stringify(service.state.context)), {
+      counterRef: { id: 'counter' },
+      pongs: 0
+    });
+  });
+
+  it('should accept serialized actor references as the target of send actions', () => {
+    // Spawned machines are restored from the machine's services
+    const machine = parentMachine.withConfig({
+      services: { counter: counterMachine }
+    });
+    const service = interpret(machine).start();
+    const restoredService = interpret(machine).start(
+      JSON.parse(JSON.stringify(service.getSnapshot()))
+    );
+
+    restoredService.send('PING');
+
+    assert.equal(restoredService.state.context.pongs, 1);
+  });
+
+  it('should spawn actors from events sent in a batch', () => {
+    const machine = Machine<{ refs: Array<ActorRef<any>> }>({
+      id: 'batch',
+      initial: 'active',
+      context: { refs: [] },
+      states: {
+        active: {
+          on: {
+            SPAWN: {
+              actions: assign<{ refs: Array<ActorRef<any>> }>({
+                refs: ctx => [
+                  ...ctx.refs,
+                  spawn(counterMachine, `counter-${ctx.refs.length}`)
+                ]
+              })
+            }
+          }
+        }
+      }
+    });
+    const service = interpret(machine).start();
+
+    service.send(['SPAWN', 'SPAWN']);
+
+    const { refs } = service.state.context;
+    assert.lengthOf(refs, 2);
+    refs[1].send('INC');
+    assert.equal(refs[1].state!.context.count, 1);
+  });
+
+  it('should return an inert actor reference when not spawned by a service', () => {
+    const { counterRef } = parentMachine.initialState.context;
+
+    assert.equal(counterRef!.id, 'counter');
+    assert.isUndefined(counterRef!.state);
+    assert.doesNotThrow(() => counterRef!.send('INC'));
+  });
+
+  describe('promises', () => {
+    it('should send a done.invoke event when the promise resolves', done => {
+      const machine = Machine<{ ref?: ActorRef<never, number> }>({
+        id: 'promise',
+        initial: 'pending',
+        context: {},
+        states: {
+          pending: {
+            entry: assign<any>({
+              ref: () => spawn(Promise.resolve(42), 'answer')
+            }),
+            on: {
+              'done.invoke.answer': {
+                target: 'success',
+                cond: (_, e) => e.data === 42
+              }
+            }
+          },
+          success: { type: 'final' }
+        }
+      });
+
+      const service = interpret(machine)
+        .onDone(() => {
+          assert.equal(service.state.context.ref!.state, 42);
+          done();
+        })
+        .start();
+    });
+
+    it('should send an error.execution event when the promise rejects', done => {
+      const machine = Machine({
+        id: 'promise',
+        initial: 'pending',
+        context: {},
+        states: {
+          pending: {
+            entry: assign<any>({
+              ref: () => spawn(Promise.reject(new Error('failed')), 'failing')
+            }),
+            on: {
+              'error.execution': {
+                target: 'failure',
+                cond: (_, e) => e.src === 'failing'
+              }
+            }
+          },
+          failure: { type: 'final' }
+        }
+      });
+
+      interpret(machine)
+        .onDone(() => done())
+        .start();
+    });
+  });
+
+  describe('callbacks', () => {
+    it('should send and receive events', done => {
+      const machine = Machine<{ ref?: ActorRef<EventObject> }>({
+        id: 'callback',
+        initial: 'active',
+        context: {},
+        states: {
+          active: {
+            entry: assign<any>({
+              ref: () =>
+                spawn((callback, onReceive) => {
+                  onReceive(e => {
+                    if (e.type === 'PING') {
+                      callback('PONG');
+                    }
+                  });
+                }, 'pinger')
+            }),
+            on: {
+              START: { actions: send('PING', { to: ctx => ctx.ref! }) },
+              PONG: 'success'
+            }
+          },
+          success: { type: 'final' }
+        }
+      });
+
+      interpret(machine)
+        .onDone(() => done())
+        .start()
+        .send('START');
+    });
+
+    it('should be spawned only once from the initial state', () => {
+      let spawned = 0;
+
+      const machine = Machine({
+        id: 'callback',
+        initial: 'active',
+        context: {},
+        states: {
+          active: {
+            entry: assign<any>({
+              ref: () =>
+                spawn(() => {
+                  spawned++;
+                }, 'counted')
+            })
+          }
+        }
+      });
+
+      interpret(machine).start();
+
+      assert.equal(spawned, 1);
+    });
+
+    it('should be disposed when the parent service stops', () => {
+      let disposed = false;
+
+      const machine = Machine({
+        id: 'callback',
+        initial: 'active',
+        context: {},
+        states: {
+          active: {
+            entry: assign<any>({
+              ref: () =>
+                spawn(
+                  () => () => {
+                    disposed = true;
+                  },
+                  'disposable'
+                )
+            })
+          }
+        }
+      });
+
+      const service = interpret(machine).start();
+      assert.isFalse(disposed);
+
+      service.stop();
+      assert.isTrue(disposed);
+    });
+  });
+
+  describe('observables', () => {
+    function createObservable<T>(): Subscribable<T> & {
+      next: (value: T) => void;
+      complete: () => void;
+      subscribed: boolean;
+    } {
+      let observer: ((value: T) => void) | undefined;
+      let completer: (() => void) | undefined;
+
+      const observable = {
+        subscribed: false,
+        subscribe: (next, _, complete) => {
+          observer = next;
+          completer = complete;
+          observable.subscribed = true;
+
+          return {
+            unsubscribe: () => {
+              observable.subscribed = false;
+            }
+          };
+        },
+        next: (value: T) => observer!(value),
+        complete: () => completer!()
+      };
+
+      return observable;
+    }
+
+    it('should send emitted values as events', () => {
+      const observable = createObservable<{ type: 'COUNT'; value: number }>();
+
+      const machine = Machine<{ count: number }>({
+        id: 'observable',
+        initial: 'active',
+        context: { count: 0 },
+        states: {
+          active: {
+            entry: assign<any>({ ref: () => spawn(observable, 'counter') }),
+            on: {
+              COUNT: { actions: assign({ count: (_, e) => e.value }) }
+            }
+          }
+        }
+      });
+
+      const service = interpret(machine).start();
+
+      observable.next({ type: 'COUNT', value: 1 });
+      observable.next({ type: 'COUNT', value: 2 });
+
+      assert.equal(service.state.context.count, 2);
+      assert.deepEqual((service.state.context as any).ref.state, {
+        type: 'COUNT',
+        value: 2
+      });
+    });
+
+    it('should send a done.invoke event when the observable completes', done => {
+      const observable = createObservable<EventObject>();
+
+      const machine = Machine({
+        id: 'observable',
+        initial: 'active',
+        context: {},
+        states: {
+          active: {
+            entry: assign<any>({ ref: () => spawn(observable, 'events') }),
+            on: { 'done.invoke.events': 'success' }
+          },
+          success: { type: 'final' }
+        }
+      });
+
+      interpret(machine)
+        .onDone(() => done())
+        .start();
+
+      observable.complete();
+    });
+
+    it('should unsubscribe when the parent service stops', () => {
+      const observable = createObservable<EventObject>();
+
+      const machine = Machine({
+        id: 'observable',
+        initial: 'active',
+        context: {},
+        states: {
+          active: {
+            entry: assign<any>({ ref: () => spawn(observable, 'events') })
+          }
+        }
+      });
+
+      const service = interpret(machine).start();
+      assert.isTrue(observable.subscribed);
+
+      service.stop();
+      assert.isFalse(observable.subscribed);
+    });
+  });
+});
@@ -270,4 +270,107 @@ describe('State', () => {
       assert.deepEqual(initialState.event, initEvent);
     });
   });
+
+  describe('.toJSON()', () => {
+    it('should serialize the state with a versioned format', () => {
+      const twoState = machine.transition(machine.initialState, 'TO_TWO');
+      const serializedState = JSON.parse(JSON.stringify(twoState));
+
+      assert.equal(serializedState.version, 1);
+      assert.equal(serializedState.machine, machine.id);
+      assert.deepEqual(serializedState.value, { two: { deep: 'foo' } });
+      assert.deepEqual(serializedState.event, { type: 'TO_TWO' });
+      assert.notProperty(serializedState, 'actions');
+      assert.notProperty(serializedState, 'meta');
+      assert.notProperty(serializedState, 'history');
+    });
+  });
+
+  describe('machine.deserializeState()', () => {
+    it('should restore a serialized state', () => {
+      const twoState = machine.transition(machine.initialState, 'TO_TWO');
+      const restoredState = machine.deserializeState(
+        JSON.parse(JSON.stringify(twoState))
+      );
+
+      assert.instanceOf(restoredState, State);
+      assert.deepEqual(restoredState.value, twoState.value);
+      assert.deepEqual(restoredState.nextEvents, twoState.nextEvents);
+      assert.deepEqual(
+        machine.transition(restoredState, 'FOO_EVENT').value,
+        machine.transition(twoState, 'FOO_EVENT').value
+      );
+    });
+
+    it('should restore started activities', () => {
+      const activityMachine = Machine({
+        id: 'activity',
+        initial: 'on',
+        states: {
+          on: {
+            activities: ['beep'],
+            on: { TOGGLE: 'off' }
+          },
+          off: {}
+        }
+      });
+
+      const restoredState = activityMachine.deserializeState(
+        JSON.parse(JSON.stringify(activityMachine.initialState))
+      );
+
+      assert.propertyVal(restoredState.activities.beep, 'type', 'beep');
+      assert.isFalse(
+        activityMachine.transition(restoredState, 'TOGGLE').activities.beep
+      );
+    });
+
+    it('should report state nodes that no longer exist', () => {
+      const changedMachine = Machine({
+        id: machine.id,
+        initial: 'one',
+        states: {
+          one: {},
+          two: {
+            initial: 'deep',
+            states: {
+              deep: {}
+            }
+          }
+        }
+      });
+      const twoState = machine.transition(machine.initialState, 'TO_TWO');
+      const serializedState = twoState.toJSON();
+
+      assert.deepEqual(
+        changedMachine.getStateIncompatibilities(serializedState),
+        [
+          `State node '${
+            changedMachine.states.two.states.deep.id
+          }' no longer has child state nodes.`
+        ]
+      );
+      assert.throws(
+        () => changedMachine.deserializeState(serializedState),
+        /no longer has child state nodes/
+      );
+      assert.throws(
+        () =>
+          changedMachine.deserializeState(
+            machine.transition(machine.initialState, 'TO_THREE').toJSON()
+          ),
+        /does not exist/
+      );
+    });
+
+    it('should report unsupported serialization versions', () => {
+      const serializedState = { ...machine.initialState.toJSON(), version: 0 };
+
+      assert.lengthOf(machine.getStateIncompatibilities(serializedState), 1);
+      assert.throws(
+        () => machine.deserializeState(serializedState),
+        /not supported/
+      );
+    });
+  });
 });
@@ -0,0 +1,147 @@
+import { assert } from 'chai';
+import { Machine, interpret, waitFor } from '../src';
+import { SimulatedClock } from '../src/interpreter';
+import { error } from '../src/actions';
+
+const fetchMachine = Machine({
+  id: 'fetch',
+  initial: 'idle',
+  states: {
+    idle: { on: { FETCH: 'loading' } },
+    loading: {
+      on: { RESOLVE: 'success' },
+      after: { 1000: 'failure' }
+    },
+    success: { type: 'final' },
+    failure: { on: { RETRY: 'loading' } }
+  }
+});
+
+describe('waitFor', () => {
+  it('should resolve with the first state that satisfies the predicate', async () => {
+    const service = interpret(fetchMachine).start();
+
+    setTimeout(() => {
+      service.send('FETCH');
+      service.send('RESOLVE');
+    });
+
+    const state = await waitFor(service, s => s.matches('loading'));
+
+    assert.equal(state.value, 'loading');
+  });
+
+  it('should resolve immediately if the current state satisfies the predicate', async () => {
+    const service = interpret(fetchMachine).start();
+
+    const state = await waitFor(service, s => s.matches('idle'));
+
+    assert.equal(state.value, 'idle');
+  });
+
+  it('should resolve with a final state that satisfies the predicate', async () => {
+    const service = interpret(fetchMachine).start();
+
+    setTimeout(() => {
+      service.send('FETCH');
+      service.send('RESOLVE');
+    });
+
+    const state = await waitFor(service, s => s.matches('success'));
+
+    assert.equal(state.value, 'success');
+  });
+
+  it('should reject when the timeout elapses', async () => {
+    const clock = new SimulatedClock();
+    const service = interpret(fetchMachine, { clock }).start();
+    const promise = waitFor(service, s => s.matches('success'), 500);
+
+    clock.increment(500);
+
+    try {
+      await promise;
+      assert.fail('waitFor should have been rejected');
+    } catch (err) {
+      assert.match(err.message, /Timeout of 500 ms exceeded/);
+    }
+  });
+
+  it('should not time out when the timeout is Infinity', async () => {
+    const clock = new SimulatedClock();
+    const service = interpret(fetchMachine, { clock }).start();
+    const promise = waitFor(service, s => s.matches('failure'), Infinity);
+
+    assert.lengthOf(clock.getPendingTimers(), 0);
+
+    service.send('FETCH');
+    clock.runAll();
+
+    assert.equal((await promise).value, 'failure');
+  });
+
+  it('should cancel the timeout once the predicate is satisfied', async () => {
+    const clock = new SimulatedClock();
+    const service = interpret(fetchMachine, { clock }).start();
+
+    await waitFor(service, s => s.matches('idle'), 500);
+
+    assert.lengthOf(clock.getPendingTimers(), 0);
+  });
+
+  it('should reject when the service is stopped without satisfying the predicate', async () => {
+    const service = interpret(fetchMachine).start();
+    const promise = waitFor(service, s => s.matches('failure'));
+
+    service.send('FETCH');
+    service.send('RESOLVE');
+
+    try {
+      await promise;
+      assert.fail('waitFor should have been rejected');
+    } catch (err) {
+      assert.match(err.message, /was stopped/);
+    }
+  });
+
+  it('should reject immediately when the service has already been stopped', async () => {
+    const clock = new SimulatedClock();
+    const service = interpret(fetchMachine, { clock }).start();
+    service.stop();
+
+    try {
+      await waitFor(service, s => s.matches('failure'));
+      assert.fail('waitFor should have been rejected');
+    } catch (err) {
+      assert.match(err.message, /was stopped/);
+    }
+    assert.lengthOf(clock.getPendingTimers(), 0);
+  });
+
+  it('should reject when processing an event throws', async () => {
+    const service = interpret(fetchMachine).start();
+    const promise = waitFor(service, s => s.matches('success'));
+
+    assert.throws(() => service.send(error('oops', 'child')));
+
+    try {
+      await promise;
+      assert.fail('waitFor should have been rejected');
+    } catch (err) {
+      assert.equal(err, 'oops');
+    }
+  });
+
+  it('should reject when the predicate throws', async () => {
+    const service = interpret(fetchMachine).start();
+
+    try {
+      await waitFor(service, () => {
+        throw new Error('predicate error');
+      });
+      assert.fail('waitFor should have been rejected');
+    } catch (err) {
+      assert.equal(err.message, 'predicate error');
+    }
+  });
+});
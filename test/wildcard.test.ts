@@ -0,0 +1,131 @@
+import { assert } from 'chai';
+import { Machine, interpret } from '../src';
+import { assign } from '../src/actions';
+
+describe('wildcard event descriptors', () => {
+  const machine = Machine({
+    id: 'wildcard',
+    initial: 'idle',
+    context: { allowed: false },
+    states: {
+      idle: {
+        on: {
+          FOO: 'foo',
+          GUARDED: { target: 'guarded', cond: ctx => ctx.allowed },
+          'error.*': 'error',
+          'error.platform.*': 'platformError',
+          '*': 'other'
+        }
+      },
+      foo: {},
+      guarded: {},
+      error: {},
+      platformError: {},
+      other: {}
+    }
+  });
+
+  it('should prefer exact event descriptors', () => {
+    assert.equal(machine.transition('idle', 'FOO').value, 'foo');
+  });
+
+  it('should match events by their dotted prefix', () => {
+    assert.equal(machine.transition('idle', 'error').value, 'error');
+    assert.equal(machine.transition('idle', 'error.execution').value, 'error');
+    assert.equal(machine.transition('idle', 'errors').value, 'other');
+  });
+
+  it('should prefer more specific prefix descriptors', () => {
+    assert.equal(
+      machine.transition('idle', 'error.platform.fetch').value,
+      'platformError'
+    );
+  });
+
+  it('should match any event with the wildcard descriptor', () => {
+    assert.equal(machine.transition('idle', 'BAR').value, 'other');
+  });
+
+  it('should fall back to wildcard descriptors when exact transitions are not enabled', () => {
+    assert.equal(machine.transition('idle', 'GUARDED').value, 'other');
+  });
+
+  it('should not match null events with the wildcard descriptor', () => {
+    const transientMachine = Machine({
+      initial: 'a',
+      states: {
+        a: { on: { '*': 'b' } },
+        b: {}
+      }
+    });
+
+    assert.equal(transientMachine.initialState.value, 'a');
+  });
+
+  it('should be handled by the state node', () => {
+    assert.isTrue(machine.states.idle.handles('error.platform.fetch'));
+    assert.isFalse(machine.states.foo.handles('error.platform.fetch'));
+  });
+
+  it('should accept matching events in strict mode', () => {
+    const strictMachine = Machine({
+      strict: true,
+      initial: 'a',
+      states: {
+        a: { on: { 'error.*': 'b' } },
+        b: {}
+      }
+    });
+
+    assert.equal(strictMachine.transition('a', 'error.custom').value, 'b');
+    assert.throws(() => strictMachine.transition('a', 'FOO'));
+  });
+
+  it('should handle done events of any invoked service', done => {
+    const parentMachine = Machine({
+      id: 'parent',
+      initial: 'pending',
+      context: { resolved: 0 },
+      states: {
+        pending: {
+          invoke: [
+            { id: 'first', src: () => Promise.resolve() },
+            { id: 'second', src: () => Promise.resolve() }
+          ],
+          on: {
+            'done.invoke.*': {
+              actions: assign({ resolved: ctx => ctx.resolved + 1 })
+            },
+            '': { target: 'success', cond: ctx => ctx.resolved === 2 }
+          }
+        },
+        success: { type: 'final' }
+      }
+    });
+
+    interpret(parentMachine)
+      .onDone(() => done())
+      .start();
+  });
+
+  it('should handle execution errors with a prefix descriptor', done => {
+    const errorMachine = Machine({
+      id: 'error',
+      initial: 'active',
+      states: {
+        active: {
+          invoke: {
+            id: 'failing',
+            src: () => Promise.reject(new Error('failed'))
+          },
+          on: { 'error.*': 'failure' }
+        },
+        failure: { type: 'final' }
+      }
+    });
+
+    interpret(errorMachine)
+      .onDone(() => done())
+      .start();
+  });
+});